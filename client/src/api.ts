@@ -4,7 +4,7 @@
  * Functions for communicating with the backend REST API.
  */
 
-import { ApiResponse, ChaosRule, ProxyConfig, RequestLog } from './types';
+import { ApiResponse, ChaosRule, ChaosRuleDraft, ProxyConfig, RequestLog, RulePhase } from './types';
 
 const API_BASE = '/api';
 
@@ -40,7 +40,12 @@ export async function getConfig(): Promise<ApiResponse<ProxyConfig>> {
     return apiFetch<ProxyConfig>('/config');
 }
 
-export async function updateConfig(config: Partial<ProxyConfig>): Promise<ApiResponse<ProxyConfig>> {
+/**
+ * Update the proxy config. Pass `seed: null` to clear the seed.
+ */
+export async function updateConfig(
+    config: Partial<Omit<ProxyConfig, 'seed'>> & { seed?: number | null }
+): Promise<ApiResponse<ProxyConfig>> {
     return apiFetch<ProxyConfig>('/config', {
         method: 'PUT',
         body: JSON.stringify(config),
@@ -55,7 +60,7 @@ export async function getRules(): Promise<ApiResponse<ChaosRule[]>> {
     return apiFetch<ChaosRule[]>('/rules');
 }
 
-export async function createRule(rule: Omit<ChaosRule, 'id'>): Promise<ApiResponse<ChaosRule>> {
+export async function createRule(rule: ChaosRuleDraft): Promise<ApiResponse<ChaosRule>> {
     return apiFetch<ChaosRule>('/rules', {
         method: 'POST',
         body: JSON.stringify(rule),
@@ -69,12 +74,33 @@ export async function updateRule(id: string, updates: Partial<ChaosRule>): Promi
     });
 }
 
+export async function reorderRules(ids: string[]): Promise<ApiResponse<ChaosRule[]>> {
+    return apiFetch<ChaosRule[]>('/rules/order', {
+        method: 'PUT',
+        body: JSON.stringify({ ids }),
+    });
+}
+
 export async function deleteRule(id: string): Promise<ApiResponse<void>> {
     return apiFetch<void>(`/rules/${id}`, {
         method: 'DELETE',
     });
 }
 
+export async function getRuleHits(): Promise<ApiResponse<Record<string, number>>> {
+    return apiFetch<Record<string, number>>('/rules/hits');
+}
+
+export async function getRulePhases(): Promise<ApiResponse<RulePhase[]>> {
+    return apiFetch<RulePhase[]>('/rules/phases');
+}
+
+export async function resetRuleHits(id?: string): Promise<ApiResponse<void>> {
+    return apiFetch<void>(id ? `/rules/${id}/hits` : '/rules/hits', {
+        method: 'DELETE',
+    });
+}
+
 // ============================================================================
 // Logs API
 // ============================================================================
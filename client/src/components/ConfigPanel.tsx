@@ -1,11 +1,12 @@
 /**
  * ConfigPanel Component
  * 
- * Allows users to configure the target API URL and enable/disable chaos.
+ * Allows users to configure the target API URL, the upstream routing table,
+ * the random seed, and enable/disable chaos.
  */
 
 import { useState, useEffect } from 'react';
-import { ProxyConfig } from '../types';
+import { ProxyConfig, UpstreamRoute } from '../types';
 import * as api from '../api';
 
 interface Props {
@@ -16,6 +17,9 @@ export function ConfigPanel({ onConfigChange }: Props) {
     const [config, setConfig] = useState<ProxyConfig>({ targetUrl: '', enabled: true });
     const [saving, setSaving] = useState(false);
     const [inputUrl, setInputUrl] = useState('');
+    const [inputSeed, setInputSeed] = useState('');
+    const [routes, setRoutes] = useState<UpstreamRoute[]>([]);
+    const [error, setError] = useState<string | null>(null);
 
     // Load initial config
     useEffect(() => {
@@ -23,20 +27,35 @@ export function ConfigPanel({ onConfigChange }: Props) {
             if (res.success && res.data) {
                 setConfig(res.data);
                 setInputUrl(res.data.targetUrl);
+                setInputSeed(res.data.seed?.toString() ?? '');
+                setRoutes(res.data.upstreams ?? []);
             }
         });
     }, []);
 
     const handleSave = async () => {
         setSaving(true);
-        const res = await api.updateConfig({ targetUrl: inputUrl });
+        const seed = parseInt(inputSeed, 10);
+        const res = await api.updateConfig({
+            targetUrl: inputUrl,
+            upstreams: routes.map(cleanRoute),
+            seed: isNaN(seed) ? null : seed,
+        });
         if (res.success && res.data) {
             setConfig(res.data);
+            setRoutes(res.data.upstreams ?? []);
+            setError(null);
             onConfigChange?.(res.data);
+        } else {
+            setError(res.error || 'Failed to save configuration');
         }
         setSaving(false);
     };
 
+    const updateRoute = (index: number, updates: Partial<UpstreamRoute>) => {
+        setRoutes(routes.map((route, i) => i === index ? { ...route, ...updates } : route));
+    };
+
     const handleToggle = async () => {
         const newEnabled = !config.enabled;
         const res = await api.updateConfig({ enabled: newEnabled });
@@ -61,6 +80,7 @@ export function ConfigPanel({ onConfigChange }: Props) {
                 </label>
             </div>
             <div className="panel-content">
+                {error && <div className="alert alert--error">{error}</div>}
                 <div className="form-group">
                     <label className="form-label">Target API URL</label>
                     <input
@@ -71,6 +91,81 @@ export function ConfigPanel({ onConfigChange }: Props) {
                         onChange={(e) => setInputUrl(e.target.value)}
                     />
                 </div>
+                <div className="form-group">
+                    <label className="form-label">Upstream Routes (first match wins)</label>
+                    {routes.map((route, index) => (
+                        <div key={index} className="effect-card">
+                            <div className="matcher-row">
+                                <input
+                                    type="text"
+                                    className="form-input"
+                                    placeholder="name"
+                                    value={route.name}
+                                    onChange={(e) => updateRoute(index, { name: e.target.value })}
+                                />
+                                <input
+                                    type="text"
+                                    className="form-input form-input--mono"
+                                    placeholder="/path-prefix"
+                                    value={route.pathPrefix ?? ''}
+                                    onChange={(e) => updateRoute(index, { pathPrefix: e.target.value })}
+                                />
+                                <input
+                                    type="text"
+                                    className="form-input form-input--mono"
+                                    placeholder="host (optional)"
+                                    value={route.host ?? ''}
+                                    onChange={(e) => updateRoute(index, { host: e.target.value })}
+                                />
+                            </div>
+                            <div className="matcher-row">
+                                <input
+                                    type="text"
+                                    className="form-input form-input--mono"
+                                    placeholder="https://orders.example.com or internal://fake"
+                                    value={route.targetUrl}
+                                    onChange={(e) => updateRoute(index, { targetUrl: e.target.value })}
+                                />
+                                <button
+                                    type="button"
+                                    className={`btn btn--small ${route.stripPrefix ? 'btn--primary' : ''}`}
+                                    onClick={() => updateRoute(index, { stripPrefix: !route.stripPrefix })}
+                                    title="Remove the path prefix before forwarding"
+                                >
+                                    Strip
+                                </button>
+                                <button
+                                    type="button"
+                                    className="btn btn--small btn--icon btn--danger"
+                                    onClick={() => setRoutes(routes.filter((_, i) => i !== index))}
+                                    title="Remove route"
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                    <button
+                        type="button"
+                        className="btn btn--small"
+                        onClick={() => setRoutes([...routes, { name: '', pathPrefix: '', targetUrl: '' }])}
+                    >
+                        + Add Route
+                    </button>
+                    <p className="form-hint">Requests no route matches go to the target URL above (upstream "default").</p>
+                </div>
+                <div className="form-group">
+                    <label className="form-label">Random Seed (optional)</label>
+                    <input
+                        type="number"
+                        className="form-input form-input--mono"
+                        placeholder="e.g., 42"
+                        step="1"
+                        value={inputSeed}
+                        onChange={(e) => setInputSeed(e.target.value)}
+                    />
+                    <p className="form-hint">Makes chaos decisions reproducible. Saving restarts the request sequence.</p>
+                </div>
                 <div className="form-group">
                     <label className="form-label" style={{ marginBottom: '8px' }}>Proxy Endpoint</label>
                     <code style={{
@@ -84,6 +179,24 @@ export function ConfigPanel({ onConfigChange }: Props) {
                         http://localhost:3001/proxy/*
                     </code>
                 </div>
+                <div className="form-group">
+                    <label className="form-label" style={{ marginBottom: '8px' }}>Forward Proxy (HTTP_PROXY / HTTPS_PROXY)</label>
+                    <code style={{
+                        display: 'block',
+                        padding: '8px 12px',
+                        background: 'var(--color-bg-primary)',
+                        borderRadius: 'var(--radius-md)',
+                        fontSize: 'var(--font-size-sm)',
+                        color: 'var(--color-text-secondary)'
+                    }}>
+                        http://localhost:3001
+                    </code>
+                    <p className="form-hint">Off by default: start the server with FORWARD_PROXY=1 to enable it.</p>
+                    <a className="btn btn--small" href="/api/ca.pem" download style={{ marginTop: '8px' }}>
+                        Download CA Certificate
+                    </a>
+                    <p className="form-hint">HTTPS calls are decrypted with certificates from this CA; trust it in your test environment.</p>
+                </div>
                 <button
                     className="btn btn--primary"
                     onClick={handleSave}
@@ -96,3 +209,16 @@ export function ConfigPanel({ onConfigChange }: Props) {
         </div>
     );
 }
+
+/**
+ * Drop empty optional fields so the server treats them as unset.
+ */
+function cleanRoute(route: UpstreamRoute): UpstreamRoute {
+    return {
+        name: route.name.trim(),
+        pathPrefix: route.pathPrefix?.trim() || undefined,
+        host: route.host?.trim() || undefined,
+        targetUrl: route.targetUrl.trim(),
+        stripPrefix: route.stripPrefix || undefined,
+    };
+}
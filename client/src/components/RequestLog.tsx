@@ -62,9 +62,9 @@ export function RequestLog() {
         return `badge badge--method badge--method-${method.toLowerCase()}`;
     };
 
-    const getStatusClass = (status?: number | 'timeout') => {
+    const getStatusClass = (status?: number | 'timeout' | 'reset') => {
         if (!status) return 'badge badge--status';
-        if (status === 'timeout') return 'badge badge--status badge--status-error';
+        if (status === 'timeout' || status === 'reset') return 'badge badge--status badge--status-error';
         return status >= 400
             ? 'badge badge--status badge--status-error'
             : 'badge badge--status badge--status-success';
@@ -112,8 +112,13 @@ export function RequestLog() {
                                     {log.path}
                                 </span>
                                 {log.statusCode && (
-                                    <span className={getStatusClass(log.statusCode)}>
-                                        {log.statusCode}
+                                    <span
+                                        className={getStatusClass(log.statusCode)}
+                                        title={log.upstreamStatusCode !== undefined ? `Upstream returned ${log.upstreamStatusCode}` : undefined}
+                                    >
+                                        {log.upstreamStatusCode !== undefined && log.upstreamStatusCode !== log.statusCode
+                                            ? `${log.upstreamStatusCode}→${log.statusCode}`
+                                            : log.statusCode}
                                     </span>
                                 )}
                                 <div style={{ textAlign: 'right' }}>
@@ -123,7 +128,12 @@ export function RequestLog() {
                                         </div>
                                     )}
                                     <div className="log-time">
+                                        {log.seed !== undefined && `seed ${log.seed} · `}
+                                        #{log.sequence} ·{' '}
+                                        {log.upstream && log.upstream !== 'default' && `→ ${log.upstream} · `}
                                         {log.responseTime && `${log.responseTime}ms · `}
+                                        {log.queueWaitMs ? `queued ${log.queueWaitMs}ms · ` : ''}
+                                        {log.websocket && `ws ↑${log.websocket.messagesFromClient} ↓${log.websocket.messagesFromUpstream} · close ${log.websocket.closeCode} · `}
                                         {formatTime(log.timestamp)}
                                     </div>
                                 </div>
@@ -4,12 +4,39 @@
  * Form for creating or editing a chaos rule.
  */
 
-import { useState } from 'react';
-import { ChaosRule, ChaosType, HttpMethod } from '../types';
+import { useEffect, useMemo, useState } from 'react';
+import {
+    ChaosEffect,
+    ChaosRule,
+    ChaosRuleDraft,
+    ChaosType,
+    CorruptionStrategy,
+    ErrorTemplate,
+    HeaderMutation,
+    HeaderOperation,
+    HttpMethod,
+    LatencyDistribution,
+    LatencyPhase,
+    LimiterAlgorithm,
+    LimiterKeySource,
+    MatchCondition,
+    MatchOperator,
+    MatchSource,
+    RateLimitHeaderStyle,
+    RuleSchedule,
+    SchedulePhase,
+    SequenceKeySource,
+    SequenceStep,
+    TriggerMode,
+    WebSocketDirection,
+    WeightedStatus,
+} from '../types';
+import { latencyDistributionOf, sampleLatency } from '../latency';
+import * as api from '../api';
 
 interface Props {
     rule?: ChaosRule;
-    onSave: (rule: Omit<ChaosRule, 'id'> | ChaosRule) => void;
+    onSave: (rule: ChaosRuleDraft | ChaosRule) => void;
     onCancel: () => void;
 }
 
@@ -17,59 +44,308 @@ const CHAOS_TYPES: { value: ChaosType; label: string; description: string }[] =
     { value: 'latency', label: 'Latency', description: 'Add delay to responses' },
     { value: 'error', label: 'Error', description: 'Return HTTP error codes' },
     { value: 'timeout', label: 'Timeout', description: 'Never respond' },
-    { value: 'corrupt', label: 'Corrupt', description: 'Return malformed JSON' },
+    { value: 'corrupt', label: 'Corrupt', description: 'Mutate or break the JSON body' },
     { value: 'rate-limit', label: 'Drop Rate', description: 'Randomly fail X% of requests (429)' },
-    { value: 'token-bucket', label: 'Token Bucket', description: 'True rate limiter (429 + Retry-After)' },
+    { value: 'token-bucket', label: 'Rate Limiter', description: 'Token bucket or window limiter (429 + rate limit headers)' },
+    { value: 'sequence', label: 'Sequence', description: 'Scripted outcomes per client' },
+    { value: 'throttle', label: 'Throttle', description: 'Trickle the response at a byte rate' },
+    { value: 'reset', label: 'Reset', description: 'Cut the connection mid-response' },
+    { value: 'headers', label: 'Headers', description: 'Strip, add or rewrite response headers' },
+    { value: 'mutate-request', label: 'Mutate Request', description: 'Alter the request before it reaches upstream' },
+    { value: 'status-rewrite', label: 'Status Rewrite', description: 'Send the real body with another status' },
+    { value: 'concurrency', label: 'Concurrency Limit', description: 'Cap in-flight requests, queue or 503 the rest' },
+    { value: 'stream', label: 'Stream', description: 'Delay, drop or cut off chunks and SSE events' },
+    { value: 'websocket', label: 'WebSocket', description: 'Refuse upgrades, delay/drop/duplicate messages, close connections' },
+    { value: 'graphql-error', label: 'GraphQL Error', description: 'Answer 200 with an errors array and null data' },
+    { value: 'graphql-partial', label: 'GraphQL Partial', description: 'Null fields of the response data and add matching errors' },
+    { value: 'graphql-latency', label: 'GraphQL Latency', description: 'Delay operations by the top-level fields they select' },
 ];
 
 const HTTP_METHODS: HttpMethod[] = ['*', 'GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
 
+const MATCH_SOURCES: { value: MatchSource; label: string; placeholder: string }[] = [
+    { value: 'header', label: 'Header', placeholder: 'X-Tenant-Id' },
+    { value: 'query', label: 'Query', placeholder: 'v' },
+    { value: 'body', label: 'Body (JSON path)', placeholder: 'user.name' },
+    { value: 'graphql', label: 'GraphQL', placeholder: '' },
+];
+
+const GRAPHQL_MATCH_KEYS: { value: string; label: string }[] = [
+    { value: 'operationName', label: 'Operation name' },
+    { value: 'operationType', label: 'Operation type' },
+    { value: 'field', label: 'Top-level field' },
+];
+
+const MATCH_OPERATORS: { value: MatchOperator; label: string }[] = [
+    { value: 'equals', label: 'equals' },
+    { value: 'regex', label: 'matches regex' },
+    { value: 'exists', label: 'exists' },
+    { value: 'not-exists', label: 'does not exist' },
+];
+
+const LATENCY_PHASES: { value: LatencyPhase; label: string }[] = [
+    { value: 'before-upstream', label: 'Before upstream call (slow connect)' },
+    { value: 'before-headers', label: 'Before headers (time to first byte)' },
+    { value: 'before-body', label: 'Between headers and body (slow read)' },
+];
+
+const LATENCY_DISTRIBUTIONS: { value: LatencyDistribution; label: string }[] = [
+    { value: 'fixed', label: 'Fixed' },
+    { value: 'uniform', label: 'Uniform (min-max)' },
+    { value: 'normal', label: 'Normal' },
+    { value: 'log-normal', label: 'Log-normal (long tail)' },
+    { value: 'exponential', label: 'Exponential' },
+    { value: 'pareto', label: 'Pareto (heavy tail)' },
+    { value: 'percentile', label: 'Percentiles (p50 / p99)' },
+];
+
+/**
+ * Parameters shown for each latency distribution, with their defaults.
+ */
+const LATENCY_PARAMETERS: Record<LatencyDistribution, { key: keyof ChaosEffect; label: string; placeholder: string }[]> = {
+    fixed: [{ key: 'latencyMs', label: 'Delay (ms)', placeholder: '1000' }],
+    uniform: [
+        { key: 'latencyMinMs', label: 'Min (ms)', placeholder: '100' },
+        { key: 'latencyMaxMs', label: 'Max (ms)', placeholder: '1000' },
+    ],
+    normal: [
+        { key: 'latencyMeanMs', label: 'Mean (ms)', placeholder: '500' },
+        { key: 'latencyStdDevMs', label: 'Std Dev (ms)', placeholder: 'mean / 4' },
+    ],
+    'log-normal': [
+        { key: 'latencyMedianMs', label: 'Median (ms)', placeholder: '200' },
+        { key: 'latencySigma', label: 'Sigma', placeholder: '1' },
+    ],
+    exponential: [{ key: 'latencyMeanMs', label: 'Mean (ms)', placeholder: '500' }],
+    pareto: [
+        { key: 'latencyMinMs', label: 'Min (ms)', placeholder: '100' },
+        { key: 'latencyParetoAlpha', label: 'Alpha', placeholder: '1.5' },
+    ],
+    percentile: [
+        { key: 'latencyP50Ms', label: 'p50 (ms)', placeholder: '80' },
+        { key: 'latencyP99Ms', label: 'p99 (ms)', placeholder: '2000' },
+    ],
+};
+
+const HISTOGRAM_SAMPLES = 2000;
+const HISTOGRAM_BINS = 24;
+
+const CORRUPTION_STRATEGIES: { value: CorruptionStrategy; label: string }[] = [
+    { value: 'remove', label: 'Remove' },
+    { value: 'nullify', label: 'Null' },
+    { value: 'flip-type', label: 'Flip type' },
+    { value: 'truncate-string', label: 'Truncate string' },
+    { value: 'inject-field', label: 'Inject field' },
+    { value: 'reorder-array', label: 'Reorder array' },
+    { value: 'invalid-json', label: 'Invalid JSON' },
+];
+
+const LIMITER_ALGORITHMS: { value: LimiterAlgorithm; label: string }[] = [
+    { value: 'token-bucket', label: 'Token bucket' },
+    { value: 'fixed-window', label: 'Fixed window' },
+    { value: 'sliding-window', label: 'Sliding window (log)' },
+];
+
+const LIMITER_KEY_SOURCES: { value: LimiterKeySource; label: string }[] = [
+    { value: 'global', label: 'Everyone (shared)' },
+    { value: 'ip', label: 'Client IP' },
+    { value: 'api-key', label: 'API key (X-API-Key / Authorization)' },
+    { value: 'header', label: 'Header' },
+];
+
+const RATE_LIMIT_HEADER_STYLES: { value: RateLimitHeaderStyle; label: string }[] = [
+    { value: 'x-ratelimit', label: 'X-RateLimit-*' },
+    { value: 'ratelimit', label: 'RateLimit-* (IETF draft)' },
+    { value: 'none', label: 'Retry-After only' },
+];
+
+const ERROR_TEMPLATES: { value: ErrorTemplate; label: string }[] = [
+    { value: 'chaos-json', label: 'Chaos Monkey JSON' },
+    { value: 'nginx', label: 'nginx HTML error page' },
+    { value: 'aws-alb', label: 'AWS ALB error page' },
+    { value: 'problem-json', label: 'RFC 7807 problem+json' },
+    { value: 'empty', label: 'Empty body (status only)' },
+];
+
+const HEADER_OPERATIONS: { value: HeaderOperation; label: string }[] = [
+    { value: 'remove', label: 'remove' },
+    { value: 'set', label: 'set to' },
+    { value: 'rewrite', label: 'rewrite' },
+];
+
+const TRIGGER_MODES: { value: TriggerMode; label: string; hint: string }[] = [
+    { value: 'always', label: 'Every request', hint: 'Fires on every matching request' },
+    { value: 'first-n', label: 'First N requests', hint: 'Fires on the first N matches, then passes' },
+    { value: 'every-nth', label: 'Every Nth request', hint: 'Fires on every Nth match' },
+    { value: 'after-n', label: 'After N requests', hint: 'Passes the first N matches, then fires' },
+];
+
+/**
+ * Default parameters for a freshly added (or re-typed) effect.
+ */
+function createDefaultEffect(type: ChaosType): ChaosEffect {
+    switch (type) {
+        case 'latency':
+            return { type, latencyMs: 1000 };
+        case 'error':
+            return { type, errorStatusCode: 500, errorMessage: 'Internal Server Error' };
+        case 'rate-limit':
+            return { type, failRate: 50 };
+        case 'token-bucket':
+            return { type, rps: 10, burst: 10 };
+        case 'corrupt':
+            return { type, corruptStrategies: ['remove', 'nullify'], corruptMutations: 1 };
+        case 'throttle':
+            return { type, bytesPerSecond: 20480, chunkSize: 1024 };
+        case 'reset':
+            return { type, resetFraction: 0.5 };
+        case 'stream':
+            return { type, streamChunkDelayMs: 500, streamDropPercent: 0 };
+        case 'websocket':
+            return { type, wsMessageDelayMs: 500, wsDirection: 'both' };
+        case 'headers':
+            return { type, headerMutations: [{ operation: 'remove', name: 'Content-Type' }] };
+        case 'status-rewrite':
+            return { type, rewriteFromStatuses: [200], rewriteStatusCode: 500 };
+        case 'mutate-request':
+            return { type, requestHeaderMutations: [{ operation: 'remove', name: 'Authorization' }] };
+        case 'concurrency':
+            return { type, maxConcurrent: 5, queueSize: 0, queueTimeoutMs: 5000 };
+        case 'sequence':
+            return { type, sequenceSteps: [503, 503, 'timeout', 'pass'], sequenceKeySource: 'ip' };
+        case 'graphql-error':
+            return { type, graphqlErrorMessage: 'Internal server error', graphqlErrorCode: 'INTERNAL_SERVER_ERROR' };
+        case 'graphql-latency':
+            return { type, graphqlFieldLatencyMs: { orders: 2000 } };
+        default:
+            return { type };
+    }
+}
+
+/**
+ * Parse a comma-separated script such as "503, 503, timeout, pass".
+ * Unrecognised entries and statuses outside 100-599 are dropped.
+ */
+function parseSequenceSteps(value: string): SequenceStep[] {
+    return value
+        .split(',')
+        .map(step => step.trim().toLowerCase())
+        .filter(step => step !== '')
+        .flatMap((step): SequenceStep[] => {
+            if (step === 'timeout' || step === 'pass') return [step];
+            const status = parseInt(step, 10);
+            return status >= 100 && status <= 599 ? [status] : [];
+        });
+}
+
+/**
+ * Parse a comma-separated distribution such as "503:70, 502:20, 504:10".
+ * Entries without a weight count as weight 1; unrecognised entries are dropped.
+ */
+function parseStatusWeights(value: string): WeightedStatus[] | undefined {
+    const weights = value
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry !== '')
+        .flatMap((entry): WeightedStatus[] => {
+            const [status, weight = '1'] = entry.split(':').map(part => part.trim());
+            const parsedStatus = parseInt(status, 10);
+            const parsedWeight = parseFloat(weight);
+            return isNaN(parsedStatus) || isNaN(parsedWeight) ? [] : [{ status: parsedStatus, weight: parsedWeight }];
+        });
+    return weights.length > 0 ? weights : undefined;
+}
+
+function formatStatusWeights(weights: WeightedStatus[] | undefined): string {
+    return (weights ?? []).map(entry => `${entry.status}:${entry.weight}`).join(', ');
+}
+
+function parseNumber(value: string): number | undefined {
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? undefined : parsed;
+}
+
 export function RuleEditor({ rule, onSave, onCancel }: Props) {
     const [name, setName] = useState(rule?.name ?? '');
     const [pathPattern, setPathPattern] = useState(rule?.pathPattern ?? '');
+    const [hostPattern, setHostPattern] = useState(rule?.hostPattern ?? '');
     const [methods, setMethods] = useState<HttpMethod[]>(rule?.methods ?? ['*']);
-    const [chaosType, setChaosType] = useState<ChaosType>(rule?.chaosType ?? 'latency');
+    const [matchers, setMatchers] = useState<MatchCondition[]>(rule?.matchers ?? []);
+    const [effects, setEffects] = useState<ChaosEffect[]>(rule?.effects ?? [createDefaultEffect('latency')]);
+    const [triggerMode, setTriggerMode] = useState<TriggerMode>(rule?.trigger?.mode ?? 'always');
+    const [triggerCount, setTriggerCount] = useState(rule?.trigger?.count.toString() ?? '3');
+    const [probability, setProbability] = useState(rule?.probability?.toString() ?? '100');
+    const [schedule, setSchedule] = useState<RuleSchedule | undefined>(rule?.schedule ?? undefined);
+    const [upstream, setUpstream] = useState(rule?.upstream ?? '');
+    const [upstreamNames, setUpstreamNames] = useState<string[]>([]);
     const [enabled, setEnabled] = useState(rule?.enabled ?? true);
 
-    // Type-specific fields
-    const [latencyMs, setLatencyMs] = useState(rule?.latencyMs?.toString() ?? '1000');
-    const [errorStatusCode, setErrorStatusCode] = useState(rule?.errorStatusCode?.toString() ?? '500');
-    const [errorMessage, setErrorMessage] = useState(rule?.errorMessage ?? 'Internal Server Error');
-    const [failRate, setFailRate] = useState(rule?.failRate?.toString() ?? '50');
-    const [rps, setRps] = useState(rule?.rps?.toString() ?? '10');
-    const [burst, setBurst] = useState(rule?.burst?.toString() ?? '10');
+    // Route names for the upstream select
+    useEffect(() => {
+        api.getConfig().then((res) => {
+            if (res.success && res.data) {
+                setUpstreamNames((res.data.upstreams ?? []).map(route => route.name));
+            }
+        });
+    }, []);
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
 
-        const ruleData: Omit<ChaosRule, 'id'> = {
+        const ruleData: ChaosRuleDraft = {
             name,
             pathPattern,
+            hostPattern: hostPattern || (rule?.hostPattern ? null : undefined),
             methods,
-            chaosType,
+            matchers: matchers.length > 0 ? matchers : (rule?.matchers?.length ? null : undefined),
+            trigger: triggerMode === 'always'
+                ? (rule?.trigger ? null : undefined)
+                : { mode: triggerMode, count: parseNumber(triggerCount) ?? 1 },
+            probability: parseNumber(probability) ?? (rule?.probability !== undefined ? null : undefined),
+            // An existing schedule has to be cleared explicitly
+            schedule: schedule ?? (rule?.schedule ? null : undefined),
+            upstream: upstream || (rule?.upstream ? null : undefined),
+            effects,
             enabled,
         };
 
-        // Add type-specific fields
-        if (chaosType === 'latency') {
-            ruleData.latencyMs = parseInt(latencyMs, 10);
-        } else if (chaosType === 'error') {
-            ruleData.errorStatusCode = parseInt(errorStatusCode, 10);
-            ruleData.errorMessage = errorMessage;
-        } else if (chaosType === 'rate-limit') {
-            ruleData.failRate = parseInt(failRate, 10);
-        } else if (chaosType === 'token-bucket') {
-            ruleData.rps = parseInt(rps, 10);
-            ruleData.burst = parseInt(burst, 10);
-        }
-
         if (rule?.id) {
-            onSave({ ...ruleData, id: rule.id });
+            onSave({ ...ruleData, id: rule.id, priority: rule.priority });
         } else {
             onSave(ruleData);
         }
     };
 
+    const updateMatcher = (index: number, updates: Partial<MatchCondition>) => {
+        setMatchers(matchers.map((matcher, i) => (i === index ? { ...matcher, ...updates } : matcher)));
+    };
+
+    const removeMatcher = (index: number) => {
+        setMatchers(matchers.filter((_, i) => i !== index));
+    };
+
+    const updateEffect = (index: number, updates: Partial<ChaosEffect>) => {
+        setEffects(effects.map((effect, i) => (i === index ? { ...effect, ...updates } : effect)));
+    };
+
+    const changeEffectType = (index: number, type: ChaosType) => {
+        setEffects(effects.map((effect, i) => (
+            i === index ? { ...createDefaultEffect(type), probability: effect.probability } : effect
+        )));
+    };
+
+    const moveEffect = (index: number, offset: -1 | 1) => {
+        const target = index + offset;
+        if (target < 0 || target >= effects.length) return;
+        const reordered = [...effects];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        setEffects(reordered);
+    };
+
+    const removeEffect = (index: number) => {
+        setEffects(effects.filter((_, i) => i !== index));
+    };
+
     const toggleMethod = (method: HttpMethod) => {
         if (method === '*') {
             setMethods(['*']);
@@ -109,6 +385,39 @@ export function RuleEditor({ rule, onSave, onCancel }: Props) {
                 />
             </div>
 
+            <div className="form-group">
+                <label className="form-label">Host Pattern (regex)</label>
+                <input
+                    type="text"
+                    className="form-input form-input--mono"
+                    placeholder="any host"
+                    value={hostPattern}
+                    onChange={(e) => setHostPattern(e.target.value)}
+                />
+                <p className="form-hint">
+                    Matches the hostname without port: the requested host for forward-proxy requests, otherwise the Host header
+                </p>
+            </div>
+
+            <div className="form-group">
+                <label className="form-label">Upstream</label>
+                <select
+                    className="form-select"
+                    value={upstream}
+                    onChange={(e) => setUpstream(e.target.value)}
+                >
+                    <option value="">Any upstream</option>
+                    <option value="default">default (target URL)</option>
+                    <option value="forward">forward (HTTP_PROXY clients)</option>
+                    {upstreamNames.map((routeName) => (
+                        <option key={routeName} value={routeName}>{routeName}</option>
+                    ))}
+                    {upstream !== '' && upstream !== 'default' && upstream !== 'forward' && !upstreamNames.includes(upstream) && (
+                        <option value={upstream}>{upstream} (not in routing table)</option>
+                    )}
+                </select>
+            </div>
+
             <div className="form-group">
                 <label className="form-label">HTTP Methods</label>
                 <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
@@ -126,36 +435,234 @@ export function RuleEditor({ rule, onSave, onCancel }: Props) {
             </div>
 
             <div className="form-group">
-                <label className="form-label">Chaos Type</label>
-                <select
-                    className="form-select"
-                    value={chaosType}
-                    onChange={(e) => setChaosType(e.target.value as ChaosType)}
+                <label className="form-label">Match Conditions (all must hold)</label>
+                {matchers.map((matcher, index) => (
+                    <div key={index} className="matcher-row">
+                        <select
+                            className="form-select"
+                            value={matcher.source}
+                            onChange={(e) => {
+                                const source = e.target.value as MatchSource;
+                                // GraphQL conditions pick from a fixed set of keys
+                                const keepKey = (source === 'graphql') === GRAPHQL_MATCH_KEYS.some(key => key.value === matcher.key);
+                                updateMatcher(index, { source, key: keepKey ? matcher.key : source === 'graphql' ? 'operationName' : '' });
+                            }}
+                        >
+                            {MATCH_SOURCES.map((source) => (
+                                <option key={source.value} value={source.value}>{source.label}</option>
+                            ))}
+                        </select>
+                        {matcher.source === 'graphql' ? (
+                            <select
+                                className="form-select"
+                                value={matcher.key}
+                                onChange={(e) => updateMatcher(index, { key: e.target.value })}
+                            >
+                                {GRAPHQL_MATCH_KEYS.map((key) => (
+                                    <option key={key.value} value={key.value}>{key.label}</option>
+                                ))}
+                            </select>
+                        ) : (
+                            <input
+                                type="text"
+                                className="form-input form-input--mono"
+                                placeholder={MATCH_SOURCES.find(src => src.value === matcher.source)?.placeholder}
+                                value={matcher.key}
+                                onChange={(e) => updateMatcher(index, { key: e.target.value })}
+                                required
+                            />
+                        )}
+                        <select
+                            className="form-select"
+                            value={matcher.operator}
+                            onChange={(e) => updateMatcher(index, { operator: e.target.value as MatchOperator })}
+                        >
+                            {MATCH_OPERATORS.map((operator) => (
+                                <option key={operator.value} value={operator.value}>{operator.label}</option>
+                            ))}
+                        </select>
+                        {(matcher.operator === 'equals' || matcher.operator === 'regex') && (
+                            <input
+                                type="text"
+                                className="form-input form-input--mono"
+                                placeholder="value"
+                                value={matcher.value ?? ''}
+                                onChange={(e) => updateMatcher(index, { value: e.target.value })}
+                            />
+                        )}
+                        <button
+                            type="button"
+                            className="btn btn--small btn--icon btn--danger"
+                            onClick={() => removeMatcher(index)}
+                            title="Remove condition"
+                        >
+                            ✕
+                        </button>
+                    </div>
+                ))}
+                <button
+                    type="button"
+                    className="btn btn--small"
+                    onClick={() => setMatchers([...matchers, { source: 'header', key: '', operator: 'equals', value: '' }])}
                 >
-                    {CHAOS_TYPES.map((type) => (
-                        <option key={type.value} value={type.value}>
-                            {type.label} - {type.description}
-                        </option>
-                    ))}
-                </select>
+                    + Add Condition
+                </button>
             </div>
 
-            {/* Type-specific fields */}
-            {chaosType === 'latency' && (
-                <div className="form-group">
-                    <label className="form-label">Delay (ms)</label>
+            <div className="form-group">
+                <label className="form-label">Trigger</label>
+                <div className="flex gap-sm">
+                    <select
+                        className="form-select"
+                        value={triggerMode}
+                        onChange={(e) => setTriggerMode(e.target.value as TriggerMode)}
+                    >
+                        {TRIGGER_MODES.map((mode) => (
+                            <option key={mode.value} value={mode.value}>{mode.label}</option>
+                        ))}
+                    </select>
+                    {triggerMode !== 'always' && (
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="1"
+                            style={{ width: '100px' }}
+                            value={triggerCount}
+                            onChange={(e) => setTriggerCount(e.target.value)}
+                        />
+                    )}
+                </div>
+                <p className="form-hint">{TRIGGER_MODES.find(mode => mode.value === triggerMode)?.hint}</p>
+            </div>
+
+            <div className="form-group">
+                <label className="form-label">Trigger Probability (%)</label>
+                <input
+                    type="number"
+                    className="form-input"
+                    min="0"
+                    max="100"
+                    value={probability}
+                    onChange={(e) => setProbability(e.target.value)}
+                />
+                <p className="form-hint">Share of matching requests the rule applies to</p>
+            </div>
+
+            <ScheduleFields schedule={schedule} onChange={setSchedule} />
+
+            <div className="form-group">
+                <label className="form-label">Effects (applied in order)</label>
+                {effects.map((effect, index) => (
+                    <div key={index} className="effect-card">
+                        <div className="effect-card-header">
+                            <span className="effect-card-index">{index + 1}</span>
+                            <select
+                                className="form-select"
+                                value={effect.type}
+                                onChange={(e) => changeEffectType(index, e.target.value as ChaosType)}
+                            >
+                                {CHAOS_TYPES.map((type) => (
+                                    <option key={type.value} value={type.value}>
+                                        {type.label} - {type.description}
+                                    </option>
+                                ))}
+                            </select>
+                            <button
+                                type="button"
+                                className="btn btn--small btn--icon"
+                                onClick={() => moveEffect(index, -1)}
+                                disabled={index === 0}
+                                title="Move up"
+                            >
+                                ↑
+                            </button>
+                            <button
+                                type="button"
+                                className="btn btn--small btn--icon"
+                                onClick={() => moveEffect(index, 1)}
+                                disabled={index === effects.length - 1}
+                                title="Move down"
+                            >
+                                ↓
+                            </button>
+                            <button
+                                type="button"
+                                className="btn btn--small btn--icon btn--danger"
+                                onClick={() => removeEffect(index)}
+                                disabled={effects.length === 1}
+                                title="Remove effect"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                        <EffectFields effect={effect} onChange={(updates) => updateEffect(index, updates)} />
+                    </div>
+                ))}
+                <button
+                    type="button"
+                    className="btn btn--small"
+                    onClick={() => setEffects([...effects, createDefaultEffect('latency')])}
+                >
+                    + Add Effect
+                </button>
+            </div>
+
+            <div className="form-group">
+                <label className="toggle">
                     <input
-                        type="number"
-                        className="form-input"
-                        min="0"
-                        max="60000"
-                        value={latencyMs}
-                        onChange={(e) => setLatencyMs(e.target.value)}
+                        type="checkbox"
+                        className="toggle-input"
+                        checked={enabled}
+                        onChange={(e) => setEnabled(e.target.checked)}
                     />
-                </div>
+                    <span className="toggle-slider" />
+                    <span style={{ marginLeft: '56px', fontSize: 'var(--font-size-sm)' }}>
+                        {enabled ? 'Enabled' : 'Disabled'}
+                    </span>
+                </label>
+            </div>
+
+            <div className="flex gap-sm mt-md">
+                <button type="submit" className="btn btn--primary" style={{ flex: 1 }}>
+                    {rule ? 'Update Rule' : 'Create Rule'}
+                </button>
+                <button type="button" className="btn" onClick={onCancel}>
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+}
+
+interface EffectFieldsProps {
+    effect: ChaosEffect;
+    onChange: (updates: Partial<ChaosEffect>) => void;
+}
+
+/**
+ * Type-specific parameter inputs for a single effect.
+ */
+function EffectFields({ effect, onChange }: EffectFieldsProps) {
+    return (
+        <>
+            <div className="form-group">
+                <label className="form-label">Effect Probability (%)</label>
+                <input
+                    type="number"
+                    className="form-input"
+                    min="0"
+                    max="100"
+                    placeholder="100"
+                    value={effect.probability ?? ''}
+                    onChange={(e) => onChange({ probability: parseNumber(e.target.value) })}
+                />
+            </div>
+
+            {effect.type === 'latency' && (
+                <LatencyFields effect={effect} onChange={onChange} />
             )}
 
-            {chaosType === 'error' && (
+            {effect.type === 'error' && (
                 <>
                     <div className="form-group">
                         <label className="form-label">Status Code</label>
@@ -164,23 +671,29 @@ export function RuleEditor({ rule, onSave, onCancel }: Props) {
                             className="form-input"
                             min="400"
                             max="599"
-                            value={errorStatusCode}
-                            onChange={(e) => setErrorStatusCode(e.target.value)}
+                            value={effect.errorStatusCode ?? ''}
+                            onChange={(e) => onChange({ errorStatusCode: parseNumber(e.target.value) })}
                         />
                     </div>
+                    <StatusWeightsField effect={effect} onChange={onChange} />
                     <div className="form-group">
                         <label className="form-label">Error Message</label>
                         <input
                             type="text"
                             className="form-input"
-                            value={errorMessage}
-                            onChange={(e) => setErrorMessage(e.target.value)}
+                            value={effect.errorMessage ?? ''}
+                            onChange={(e) => onChange({ errorMessage: e.target.value })}
                         />
                     </div>
+                    <ErrorResponseFields effect={effect} onChange={onChange} />
                 </>
             )}
 
-            {chaosType === 'rate-limit' && (
+            {effect.type === 'corrupt' && (
+                <CorruptFields effect={effect} onChange={onChange} />
+            )}
+
+            {effect.type === 'rate-limit' && (
                 <div className="form-group">
                     <label className="form-label">Drop Rate (%)</label>
                     <input
@@ -188,64 +701,1097 @@ export function RuleEditor({ rule, onSave, onCancel }: Props) {
                         className="form-input"
                         min="0"
                         max="100"
-                        value={failRate}
-                        onChange={(e) => setFailRate(e.target.value)}
+                        value={effect.failRate ?? ''}
+                        onChange={(e) => onChange({ failRate: parseNumber(e.target.value) })}
                     />
                     <p className="form-hint">Randomly returns 429 for X% of requests</p>
                 </div>
             )}
 
-            {chaosType === 'token-bucket' && (
+            {effect.type === 'token-bucket' && (
+                <RateLimiterFields effect={effect} onChange={onChange} />
+            )}
+
+            {effect.type === 'throttle' && (
                 <>
                     <div className="form-group">
-                        <label className="form-label">Requests per Second (RPS)</label>
+                        <label className="form-label">Bytes per Second</label>
                         <input
                             type="number"
                             className="form-input"
                             min="1"
-                            max="1000"
-                            value={rps}
-                            onChange={(e) => setRps(e.target.value)}
+                            value={effect.bytesPerSecond ?? ''}
+                            onChange={(e) => onChange({ bytesPerSecond: parseNumber(e.target.value) })}
                         />
+                        <p className="form-hint">20480 ≈ a slow mobile link (20 KB/s)</p>
                     </div>
                     <div className="form-group">
-                        <label className="form-label">Burst Capacity</label>
+                        <label className="form-label">Chunk Size (bytes)</label>
                         <input
                             type="number"
                             className="form-input"
                             min="1"
-                            max="1000"
-                            value={burst}
-                            onChange={(e) => setBurst(e.target.value)}
+                            value={effect.chunkSize ?? ''}
+                            onChange={(e) => onChange({ chunkSize: parseNumber(e.target.value) })}
                         />
-                        <p className="form-hint">Max requests allowed in a burst before rate limiting</p>
                     </div>
                 </>
             )}
 
-            <div className="form-group">
-                <label className="toggle">
+            {effect.type === 'reset' && (
+                <div className="form-group">
+                    <label className="form-label">Body Sent Before Reset (%)</label>
                     <input
-                        type="checkbox"
-                        className="toggle-input"
-                        checked={enabled}
-                        onChange={(e) => setEnabled(e.target.checked)}
+                        type="number"
+                        className="form-input"
+                        min="0"
+                        max="100"
+                        value={effect.resetFraction === undefined ? '' : Math.round(effect.resetFraction * 100)}
+                        onChange={(e) => {
+                            const percent = parseNumber(e.target.value);
+                            onChange({ resetFraction: percent === undefined ? undefined : percent / 100 });
+                        }}
                     />
-                    <span className="toggle-slider" />
-                    <span style={{ marginLeft: '56px', fontSize: 'var(--font-size-sm)' }}>
-                        {enabled ? 'Enabled' : 'Disabled'}
-                    </span>
-                </label>
-            </div>
+                    <p className="form-hint">Status and headers are sent, then the socket is destroyed (ECONNRESET)</p>
+                </div>
+            )}
 
-            <div className="flex gap-sm mt-md">
-                <button type="submit" className="btn btn--primary" style={{ flex: 1 }}>
-                    {rule ? 'Update Rule' : 'Create Rule'}
-                </button>
-                <button type="button" className="btn" onClick={onCancel}>
-                    Cancel
-                </button>
-            </div>
-        </form>
+            {effect.type === 'stream' && (
+                <>
+                    <div className="form-group">
+                        <label className="form-label">Delay Between Chunks (ms)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="0"
+                            value={effect.streamChunkDelayMs ?? ''}
+                            onChange={(e) => onChange({ streamChunkDelayMs: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">Dropped SSE Events (%)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="0"
+                            max="100"
+                            value={effect.streamDropPercent ?? ''}
+                            onChange={(e) => onChange({ streamDropPercent: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">Cut Stream After (events)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="0"
+                            placeholder="never"
+                            value={effect.streamCutAfterEvents ?? ''}
+                            onChange={(e) => onChange({ streamCutAfterEvents: parseNumber(e.target.value) })}
+                        />
+                        <p className="form-hint">
+                            On text/event-stream responses each SSE event counts; otherwise each upstream chunk does
+                        </p>
+                    </div>
+                </>
+            )}
+
+            {effect.type === 'sequence' && (
+                <SequenceFields effect={effect} onChange={onChange} />
+            )}
+
+            {effect.type === 'headers' && (
+                <>
+                    <MutationList
+                        label="Response Headers"
+                        namePlaceholder="Cache-Control"
+                        mutations={effect.headerMutations ?? []}
+                        onChange={(headerMutations) => onChange({ headerMutations })}
+                    />
+                    <p className="form-hint">Content-Length and Transfer-Encoding are managed by the proxy and left unchanged</p>
+                </>
+            )}
+
+            {effect.type === 'status-rewrite' && (
+                <StatusRewriteFields effect={effect} onChange={onChange} />
+            )}
+
+            {effect.type === 'concurrency' && (
+                <>
+                    <div className="form-group">
+                        <label className="form-label">Max In-Flight Requests</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="1"
+                            value={effect.maxConcurrent ?? ''}
+                            onChange={(e) => onChange({ maxConcurrent: parseNumber(e.target.value) })}
+                        />
+                        <p className="form-hint">Proxied requests this rule lets through at the same time</p>
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">Queue Size</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="0"
+                            value={effect.queueSize ?? ''}
+                            onChange={(e) => onChange({ queueSize: parseNumber(e.target.value) })}
+                        />
+                        <p className="form-hint">Requests that may wait for a slot; 0 returns 503 at once</p>
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">Queue Timeout (ms)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="0"
+                            value={effect.queueTimeoutMs ?? ''}
+                            onChange={(e) => onChange({ queueTimeoutMs: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                    <ErrorResponseFields effect={effect} onChange={onChange} />
+                </>
+            )}
+
+            {effect.type === 'mutate-request' && (
+                <RequestMutationFields effect={effect} onChange={onChange} />
+            )}
+
+            {effect.type === 'websocket' && (
+                <WebSocketFields effect={effect} onChange={onChange} />
+            )}
+
+            {effect.type === 'graphql-error' && (
+                <GraphQLErrorFields effect={effect} onChange={onChange} />
+            )}
+
+            {effect.type === 'graphql-partial' && (
+                <GraphQLPartialFields effect={effect} onChange={onChange} />
+            )}
+
+            {effect.type === 'graphql-latency' && (
+                <GraphQLLatencyFields effect={effect} onChange={onChange} />
+            )}
+        </>
+    );
+}
+
+/**
+ * Inputs for the 'latency' effect: the distribution, its parameters, a
+ * preview histogram and the phase the delay applies in.
+ */
+function LatencyFields({ effect, onChange }: EffectFieldsProps) {
+    const distribution = latencyDistributionOf(effect);
+    const isCapped = distribution !== 'fixed' && distribution !== 'uniform';
+
+    return (
+        <>
+            <div className="form-group">
+                <label className="form-label">Distribution</label>
+                <select
+                    className="form-select"
+                    value={distribution}
+                    onChange={(e) => onChange({ latencyDistribution: e.target.value as LatencyDistribution })}
+                >
+                    {LATENCY_DISTRIBUTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="flex gap-sm">
+                {LATENCY_PARAMETERS[distribution].map((parameter) => (
+                    <div key={parameter.key} className="form-group">
+                        <label className="form-label">{parameter.label}</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="0"
+                            step="any"
+                            placeholder={parameter.placeholder}
+                            value={(effect[parameter.key] as number | undefined) ?? ''}
+                            onChange={(e) => onChange({ [parameter.key]: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                ))}
+                {isCapped && (
+                    <div className="form-group">
+                        <label className="form-label">Cap (ms)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="0"
+                            placeholder="60000"
+                            value={effect.latencyMaxMs ?? ''}
+                            onChange={(e) => onChange({ latencyMaxMs: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                )}
+            </div>
+            {distribution !== 'fixed' && <LatencyHistogram effect={{ ...effect, latencyDistribution: distribution }} />}
+            <div className="form-group">
+                <label className="form-label">Phase</label>
+                <select
+                    className="form-select"
+                    value={effect.latencyPhase ?? 'before-headers'}
+                    onChange={(e) => onChange({ latencyPhase: e.target.value as LatencyPhase })}
+                >
+                    {LATENCY_PHASES.map((phase) => (
+                        <option key={phase.value} value={phase.value}>{phase.label}</option>
+                    ))}
+                </select>
+                <p className="form-hint">Test connect and read timeouts separately</p>
+            </div>
+        </>
+    );
+}
+
+/**
+ * Preview of a latency distribution: a histogram of sampled delays up to
+ * their 99th percentile, with p50 / p90 / p99 below.
+ */
+function LatencyHistogram({ effect }: { effect: ChaosEffect }) {
+    // Resample only when the parameters change, not on every render of the form
+    const parameters = JSON.stringify(effect);
+    const preview = useMemo(() => {
+        const samples = Array.from({ length: HISTOGRAM_SAMPLES }, () => sampleLatency(effect)).sort((a, b) => a - b);
+        const percentile = (p: number) => samples[Math.min(samples.length - 1, Math.floor(p * samples.length))];
+        const maxMs = Math.max(1, percentile(0.99));
+
+        const bins = new Array<number>(HISTOGRAM_BINS).fill(0);
+        for (const sample of samples) {
+            bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((sample / maxMs) * HISTOGRAM_BINS))] += 1;
+        }
+        return { bins, peak: Math.max(...bins), maxMs, p50: percentile(0.5), p90: percentile(0.9), p99: percentile(0.99) };
+    }, [parameters]);
+
+    return (
+        <div className="form-group">
+            <div className="latency-histogram" title={`${HISTOGRAM_SAMPLES} samples, 0-${preview.maxMs}ms (longer delays in the last bar)`}>
+                {preview.bins.map((count, index) => (
+                    <div
+                        key={index}
+                        className="latency-histogram-bar"
+                        style={{ height: `${(count / preview.peak) * 100}%` }}
+                    />
+                ))}
+            </div>
+            <p className="form-hint">
+                p50 {preview.p50}ms · p90 {preview.p90}ms · p99 {preview.p99}ms
+            </p>
+        </div>
+    );
+}
+
+interface ScheduleFieldsProps {
+    schedule: RuleSchedule | undefined;
+    onChange: (schedule: RuleSchedule | undefined) => void;
+}
+
+/**
+ * Flapping outage schedule: the rule alternates between down phases (it
+ * applies) and up phases (it is skipped).
+ */
+function ScheduleFields({ schedule, onChange }: ScheduleFieldsProps) {
+    const update = (updates: Partial<RuleSchedule>) => {
+        if (schedule) onChange({ ...schedule, ...updates });
+    };
+
+    return (
+        <div className="form-group">
+            <div className="flex items-center justify-between">
+                <label className="form-label">Flapping Outage</label>
+                <button
+                    type="button"
+                    className={`btn btn--small ${schedule ? 'btn--primary' : ''}`}
+                    onClick={() => onChange(schedule ? undefined : { downMs: 20000, upMs: 40000 })}
+                >
+                    {schedule ? 'On' : 'Off'}
+                </button>
+            </div>
+            {schedule && (
+                <>
+                    <div className="flex gap-sm">
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="1000"
+                            title="Down phase (ms)"
+                            value={schedule.downMs}
+                            onChange={(e) => update({ downMs: parseNumber(e.target.value) ?? 0 })}
+                        />
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="0"
+                            title="Down jitter +/- (ms)"
+                            placeholder="± jitter"
+                            value={schedule.downJitterMs ?? ''}
+                            onChange={(e) => update({ downJitterMs: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                    <div className="flex gap-sm" style={{ marginTop: 'var(--spacing-xs)' }}>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="1000"
+                            title="Up phase (ms)"
+                            value={schedule.upMs}
+                            onChange={(e) => update({ upMs: parseNumber(e.target.value) ?? 0 })}
+                        />
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="0"
+                            title="Up jitter +/- (ms)"
+                            placeholder="± jitter"
+                            value={schedule.upJitterMs ?? ''}
+                            onChange={(e) => update({ upJitterMs: parseNumber(e.target.value) })}
+                        />
+                        <select
+                            className="form-select"
+                            title="Phase the cycle starts in"
+                            value={schedule.startPhase ?? 'down'}
+                            onChange={(e) => update({ startPhase: e.target.value as SchedulePhase })}
+                        >
+                            <option value="down">Start down</option>
+                            <option value="up">Start up</option>
+                        </select>
+                    </div>
+                    <p className="form-hint">Down (ms, ± jitter) the rule applies; up (ms, ± jitter) it is skipped; repeats</p>
+                </>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Inputs for the 'token-bucket' effect: the algorithm and its limits, who
+ * shares a limiter, and which rate limit headers are sent.
+ */
+function RateLimiterFields({ effect, onChange }: EffectFieldsProps) {
+    const algorithm = effect.limiterAlgorithm ?? 'token-bucket';
+    const keySource = effect.limiterKeySource ?? 'global';
+
+    return (
+        <>
+            <div className="form-group">
+                <label className="form-label">Algorithm</label>
+                <select
+                    className="form-select"
+                    value={algorithm}
+                    onChange={(e) => onChange({ limiterAlgorithm: e.target.value as LimiterAlgorithm })}
+                >
+                    {LIMITER_ALGORITHMS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+            {algorithm === 'token-bucket' ? (
+                <>
+                    <div className="form-group">
+                        <label className="form-label">Requests per Second (RPS)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="1"
+                            max="1000"
+                            value={effect.rps ?? ''}
+                            onChange={(e) => onChange({ rps: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">Burst Capacity</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="1"
+                            max="1000"
+                            value={effect.burst ?? ''}
+                            onChange={(e) => onChange({ burst: parseNumber(e.target.value) })}
+                        />
+                        <p className="form-hint">Max requests allowed in a burst before rate limiting</p>
+                    </div>
+                </>
+            ) : (
+                <>
+                    <div className="form-group">
+                        <label className="form-label">Requests per Window</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="1"
+                            value={effect.windowLimit ?? ''}
+                            placeholder="60"
+                            onChange={(e) => onChange({ windowLimit: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">Window (ms)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="1"
+                            value={effect.windowMs ?? ''}
+                            placeholder="60000"
+                            onChange={(e) => onChange({ windowMs: parseNumber(e.target.value) })}
+                        />
+                        <p className="form-hint">
+                            {algorithm === 'fixed-window'
+                                ? 'Counts reset at each window boundary'
+                                : 'Counts requests in the trailing window'}
+                        </p>
+                    </div>
+                </>
+            )}
+            <div className="form-group">
+                <label className="form-label">Limit Per</label>
+                <div className="flex gap-sm">
+                    <select
+                        className="form-select"
+                        value={keySource}
+                        onChange={(e) => onChange({ limiterKeySource: e.target.value as LimiterKeySource })}
+                    >
+                        {LIMITER_KEY_SOURCES.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                    {keySource === 'header' && (
+                        <input
+                            type="text"
+                            className="form-input form-input--mono"
+                            placeholder="X-Tenant-Id"
+                            value={effect.limiterKeyHeader ?? ''}
+                            onChange={(e) => onChange({ limiterKeyHeader: e.target.value })}
+                        />
+                    )}
+                </div>
+                {(keySource === 'api-key' || keySource === 'header') && (
+                    <p className="form-hint">Requests without the key pass unlimited</p>
+                )}
+            </div>
+            <div className="form-group">
+                <label className="form-label">Rate Limit Headers</label>
+                <select
+                    className="form-select"
+                    value={effect.rateLimitHeaders ?? 'x-ratelimit'}
+                    onChange={(e) => onChange({ rateLimitHeaders: e.target.value as RateLimitHeaderStyle })}
+                >
+                    {RATE_LIMIT_HEADER_STYLES.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+        </>
+    );
+}
+
+/**
+ * Inputs for the 'sequence' effect. The script is edited as free text and
+ * parsed on blur so partially typed entries aren't dropped mid-edit.
+ */
+function SequenceFields({ effect, onChange }: EffectFieldsProps) {
+    const [stepsText, setStepsText] = useState((effect.sequenceSteps ?? []).join(', '));
+
+    return (
+        <>
+            <div className="form-group">
+                <label className="form-label">Steps</label>
+                <input
+                    type="text"
+                    className="form-input form-input--mono"
+                    placeholder="503, 503, timeout, pass"
+                    value={stepsText}
+                    onChange={(e) => setStepsText(e.target.value)}
+                    onBlur={() => onChange({ sequenceSteps: parseSequenceSteps(stepsText) })}
+                />
+                <p className="form-hint">Status codes, "timeout" or "pass", played in order per client; requests pass once the script ends</p>
+            </div>
+            <div className="form-group">
+                <label className="form-label">Identify Clients By</label>
+                <div className="flex gap-sm">
+                    <select
+                        className="form-select"
+                        value={effect.sequenceKeySource ?? 'ip'}
+                        onChange={(e) => onChange({ sequenceKeySource: e.target.value as SequenceKeySource })}
+                    >
+                        <option value="ip">Client IP</option>
+                        <option value="header">Header</option>
+                    </select>
+                    {effect.sequenceKeySource === 'header' && (
+                        <input
+                            type="text"
+                            className="form-input form-input--mono"
+                            placeholder="Idempotency-Key"
+                            value={effect.sequenceKeyHeader ?? ''}
+                            onChange={(e) => onChange({ sequenceKeyHeader: e.target.value })}
+                        />
+                    )}
+                </div>
+            </div>
+            <div className="form-group">
+                <label className="form-label">Forget Idle Clients After (ms)</label>
+                <input
+                    type="number"
+                    className="form-input"
+                    min="0"
+                    placeholder="60000"
+                    value={effect.sequenceIdleMs ?? ''}
+                    onChange={(e) => onChange({ sequenceIdleMs: parseNumber(e.target.value) })}
+                />
+            </div>
+        </>
+    );
+}
+
+/**
+ * Parameters of a corrupt effect: strategies, JSONPath targets and how
+ * many mutations to apply per response.
+ */
+function CorruptFields({ effect, onChange }: EffectFieldsProps) {
+    const [pathsText, setPathsText] = useState((effect.corruptPaths ?? []).join(', '));
+    const strategies = effect.corruptStrategies ?? ['remove', 'nullify'];
+
+    const toggleStrategy = (strategy: CorruptionStrategy) => {
+        const next = strategies.includes(strategy)
+            ? strategies.filter(s => s !== strategy)
+            : [...strategies, strategy];
+        onChange({ corruptStrategies: next.length > 0 ? next : undefined });
+    };
+
+    const parsePaths = (value: string): string[] | undefined => {
+        const paths = value.split(',').map(path => path.trim()).filter(path => path !== '');
+        return paths.length > 0 ? paths : undefined;
+    };
+
+    return (
+        <>
+            <div className="form-group">
+                <label className="form-label">Strategies (one picked per mutation)</label>
+                <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+                    {CORRUPTION_STRATEGIES.map((strategy) => (
+                        <button
+                            key={strategy.value}
+                            type="button"
+                            className={`btn btn--small ${strategies.includes(strategy.value) ? 'btn--primary' : ''}`}
+                            onClick={() => toggleStrategy(strategy.value)}
+                        >
+                            {strategy.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="form-group">
+                <label className="form-label">Target Fields (JSONPath)</label>
+                <input
+                    type="text"
+                    className="form-input form-input--mono"
+                    placeholder="$.items[*].price, $..email"
+                    value={pathsText}
+                    onChange={(e) => setPathsText(e.target.value)}
+                    onBlur={() => onChange({ corruptPaths: parsePaths(pathsText) })}
+                />
+                <p className="form-hint">Comma-separated; leave empty to target any top-level field</p>
+            </div>
+            {!effect.corruptPaths && (
+                <div className="form-group">
+                    <button
+                        type="button"
+                        className={`btn btn--small ${effect.corruptDeep ? 'btn--primary' : ''}`}
+                        onClick={() => onChange({ corruptDeep: effect.corruptDeep ? undefined : true })}
+                    >
+                        Include nested fields
+                    </button>
+                </div>
+            )}
+            <div className="form-group">
+                <label className="form-label">Mutations per Response</label>
+                <input
+                    type="number"
+                    className="form-input"
+                    min="1"
+                    max="100"
+                    placeholder="1"
+                    value={effect.corruptMutations ?? ''}
+                    onChange={(e) => onChange({ corruptMutations: parseNumber(e.target.value) })}
+                />
+            </div>
+        </>
+    );
+}
+
+/**
+ * Optional weighted status distribution, overriding the fixed status.
+ */
+function StatusWeightsField({ effect, onChange }: EffectFieldsProps) {
+    const [weightsText, setWeightsText] = useState(formatStatusWeights(effect.statusWeights));
+
+    return (
+        <div className="form-group">
+            <label className="form-label">Weighted Statuses (optional)</label>
+            <input
+                type="text"
+                className="form-input form-input--mono"
+                placeholder="503:70, 502:20, 504:10"
+                value={weightsText}
+                onChange={(e) => setWeightsText(e.target.value)}
+                onBlur={() => onChange({ statusWeights: parseStatusWeights(weightsText) })}
+            />
+            <p className="form-hint">status:weight pairs; when set, the status is drawn from this distribution</p>
+        </div>
+    );
+}
+
+/**
+ * Parameters of a 'status-rewrite' effect: which upstream statuses to
+ * rewrite and the status to send instead.
+ */
+function StatusRewriteFields({ effect, onChange }: EffectFieldsProps) {
+    const [fromText, setFromText] = useState((effect.rewriteFromStatuses ?? []).join(', '));
+
+    const parseStatuses = (value: string): number[] | undefined => {
+        const statuses = value.split(',').map(s => parseInt(s.trim(), 10)).filter(s => !isNaN(s));
+        return statuses.length > 0 ? statuses : undefined;
+    };
+
+    return (
+        <>
+            <div className="form-group">
+                <label className="form-label">Upstream Statuses</label>
+                <input
+                    type="text"
+                    className="form-input form-input--mono"
+                    placeholder="any"
+                    value={fromText}
+                    onChange={(e) => setFromText(e.target.value)}
+                    onBlur={() => onChange({ rewriteFromStatuses: parseStatuses(fromText) })}
+                />
+                <p className="form-hint">Comma-separated; leave empty to rewrite every status</p>
+            </div>
+            <div className="form-group">
+                <label className="form-label">Send As Status</label>
+                <input
+                    type="number"
+                    className="form-input"
+                    min="100"
+                    max="599"
+                    value={effect.rewriteStatusCode ?? ''}
+                    onChange={(e) => onChange({ rewriteStatusCode: parseNumber(e.target.value) })}
+                />
+            </div>
+            <StatusWeightsField effect={effect} onChange={onChange} />
+        </>
+    );
+}
+
+/**
+ * Parameters of a 'websocket' effect: upgrade refusal, per-message chaos
+ * and forced closes.
+ */
+function WebSocketFields({ effect, onChange }: EffectFieldsProps) {
+    return (
+        <>
+            <div className="form-group">
+                <label className="form-label">Refuse Upgrade With Status</label>
+                <input
+                    type="number"
+                    className="form-input"
+                    min="400"
+                    max="599"
+                    placeholder="accept"
+                    value={effect.wsRefuseStatus ?? ''}
+                    onChange={(e) => onChange({ wsRefuseStatus: parseNumber(e.target.value) })}
+                />
+                <p className="form-hint">When set, the handshake fails and the message settings below are ignored</p>
+            </div>
+            {effect.wsRefuseStatus !== undefined ? (
+                <ErrorResponseFields effect={effect} onChange={onChange} />
+            ) : (
+                <>
+                    <div className="form-group">
+                        <label className="form-label">Direction</label>
+                        <select
+                            className="form-select"
+                            value={effect.wsDirection ?? 'both'}
+                            onChange={(e) => onChange({ wsDirection: e.target.value as WebSocketDirection })}
+                        >
+                            <option value="both">Both directions</option>
+                            <option value="client-to-upstream">Client → upstream</option>
+                            <option value="upstream-to-client">Upstream → client</option>
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">Message Delay (ms)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="0"
+                            value={effect.wsMessageDelayMs ?? ''}
+                            onChange={(e) => onChange({ wsMessageDelayMs: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">Dropped Messages (%)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="0"
+                            max="100"
+                            value={effect.wsDropPercent ?? ''}
+                            onChange={(e) => onChange({ wsDropPercent: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">Duplicated Messages (%)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="0"
+                            max="100"
+                            value={effect.wsDuplicatePercent ?? ''}
+                            onChange={(e) => onChange({ wsDuplicatePercent: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">Close After (messages)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="1"
+                            placeholder="never"
+                            value={effect.wsCloseAfterMessages ?? ''}
+                            onChange={(e) => onChange({ wsCloseAfterMessages: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">Close After (ms)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="1"
+                            placeholder="never"
+                            value={effect.wsCloseAfterMs ?? ''}
+                            onChange={(e) => onChange({ wsCloseAfterMs: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">Close Code</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            min="1000"
+                            max="4999"
+                            placeholder="1006"
+                            value={effect.wsCloseCode ?? ''}
+                            onChange={(e) => onChange({ wsCloseCode: parseNumber(e.target.value) })}
+                        />
+                        <p className="form-hint">1006 drops the TCP connection without a close frame</p>
+                    </div>
+                </>
+            )}
+        </>
+    );
+}
+
+/**
+ * Message and code of the errors a GraphQL effect reports.
+ */
+function GraphQLErrorFields({ effect, onChange }: EffectFieldsProps) {
+    return (
+        <>
+            <div className="form-group">
+                <label className="form-label">Error Message</label>
+                <input
+                    type="text"
+                    className="form-input"
+                    placeholder="Internal server error"
+                    value={effect.graphqlErrorMessage ?? ''}
+                    onChange={(e) => onChange({ graphqlErrorMessage: e.target.value || undefined })}
+                />
+            </div>
+            <div className="form-group">
+                <label className="form-label">Error Code (extensions.code)</label>
+                <input
+                    type="text"
+                    className="form-input form-input--mono"
+                    placeholder="INTERNAL_SERVER_ERROR"
+                    value={effect.graphqlErrorCode ?? ''}
+                    onChange={(e) => onChange({ graphqlErrorCode: e.target.value || undefined })}
+                />
+            </div>
+        </>
+    );
+}
+
+/**
+ * Inputs for the 'graphql-partial' effect: the fields to null and the
+ * errors reported for them.
+ */
+function GraphQLPartialFields({ effect, onChange }: EffectFieldsProps) {
+    const [pathsText, setPathsText] = useState((effect.graphqlNullPaths ?? []).join(', '));
+
+    const parsePaths = (value: string): string[] | undefined => {
+        const paths = value.split(',').map(path => path.trim()).filter(path => path !== '');
+        return paths.length > 0 ? paths : undefined;
+    };
+
+    return (
+        <>
+            <div className="form-group">
+                <label className="form-label">Fields to Null (JSONPath)</label>
+                <input
+                    type="text"
+                    className="form-input form-input--mono"
+                    placeholder="$.data.user.email, $.data.orders[*].items"
+                    value={pathsText}
+                    onChange={(e) => setPathsText(e.target.value)}
+                    onBlur={() => onChange({ graphqlNullPaths: parsePaths(pathsText) })}
+                />
+                <p className="form-hint">Comma-separated, within $.data; leave empty to null one random top-level field</p>
+            </div>
+            <GraphQLErrorFields effect={effect} onChange={onChange} />
+        </>
+    );
+}
+
+/**
+ * Inputs for the 'graphql-latency' effect: a delay per top-level field.
+ */
+function GraphQLLatencyFields({ effect, onChange }: EffectFieldsProps) {
+    const [latencyText, setLatencyText] = useState(
+        Object.entries(effect.graphqlFieldLatencyMs ?? {}).map(([field, ms]) => `${field}: ${ms}`).join('\n')
+    );
+
+    const parseLatencies = (value: string): Record<string, number> | undefined => {
+        const latencies: Record<string, number> = {};
+        for (const [field, ms] of Object.entries(parseHeaderLines(value) ?? {})) {
+            const delayMs = parseNumber(ms);
+            if (delayMs !== undefined && delayMs >= 0) latencies[field] = delayMs;
+        }
+        return Object.keys(latencies).length > 0 ? latencies : undefined;
+    };
+
+    return (
+        <div className="form-group">
+            <label className="form-label">Delay per Field (ms)</label>
+            <textarea
+                className="form-input form-input--mono"
+                rows={3}
+                placeholder={'orders: 2000\nusers: 300'}
+                value={latencyText}
+                onChange={(e) => setLatencyText(e.target.value)}
+                onBlur={() => onChange({ graphqlFieldLatencyMs: parseLatencies(latencyText) })}
+            />
+            <p className="form-hint">One "field: ms" per line. Queries wait for their slowest field; mutations for the sum</p>
+        </div>
+    );
+}
+
+/**
+ * Parse "Name: value" lines into a header map. Lines without a colon are dropped.
+ */
+function parseHeaderLines(value: string): Record<string, string> | undefined {
+    const headers: Record<string, string> = {};
+    for (const line of value.split('\n')) {
+        const colon = line.indexOf(':');
+        if (colon <= 0) continue;
+        headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+    }
+    return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+/**
+ * Shape of the error response: template, custom body, content type and headers.
+ */
+function ErrorResponseFields({ effect, onChange }: EffectFieldsProps) {
+    const [headersText, setHeadersText] = useState(
+        Object.entries(effect.errorHeaders ?? {}).map(([name, value]) => `${name}: ${value}`).join('\n')
+    );
+
+    return (
+        <>
+            <div className="form-group">
+                <label className="form-label">Response Template</label>
+                <select
+                    className="form-select"
+                    value={effect.errorTemplate ?? 'chaos-json'}
+                    onChange={(e) => onChange({ errorTemplate: e.target.value as ErrorTemplate })}
+                >
+                    {ERROR_TEMPLATES.map((template) => (
+                        <option key={template.value} value={template.value}>{template.label}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="form-group">
+                <label className="form-label">Custom Body (optional)</label>
+                <textarea
+                    className="form-input form-input--mono"
+                    rows={3}
+                    placeholder={'{"error": "{{message}}", "requestId": "{{requestId}}"}'}
+                    value={effect.errorBody ?? ''}
+                    onChange={(e) => onChange({ errorBody: e.target.value === '' ? undefined : e.target.value })}
+                />
+                <p className="form-hint">Replaces the template body. Placeholders: {'{{requestId}} {{path}} {{method}} {{timestamp}} {{status}} {{message}}'}</p>
+            </div>
+            <div className="form-group">
+                <label className="form-label">Content-Type (optional)</label>
+                <input
+                    type="text"
+                    className="form-input form-input--mono"
+                    placeholder="application/json"
+                    value={effect.errorContentType ?? ''}
+                    onChange={(e) => onChange({ errorContentType: e.target.value || undefined })}
+                />
+            </div>
+            <div className="form-group">
+                <label className="form-label">Extra Headers (optional)</label>
+                <textarea
+                    className="form-input form-input--mono"
+                    rows={2}
+                    placeholder={'Retry-After: 30\nX-Request-Id: {{requestId}}'}
+                    value={headersText}
+                    onChange={(e) => setHeadersText(e.target.value)}
+                    onBlur={() => onChange({ errorHeaders: parseHeaderLines(headersText) })}
+                />
+                <p className="form-hint">One "Name: value" per line</p>
+            </div>
+        </>
+    );
+}
+
+interface MutationListProps {
+    label: string;
+    namePlaceholder: string;
+    mutations: HeaderMutation[];
+    onChange: (mutations: HeaderMutation[]) => void;
+}
+
+/**
+ * Rows of name/value changes (remove, set, rewrite), used for response
+ * headers, request headers and query parameters.
+ */
+function MutationList({ label, namePlaceholder, mutations, onChange }: MutationListProps) {
+    const updateMutation = (index: number, updates: Partial<HeaderMutation>) => {
+        onChange(mutations.map((m, i) => (i === index ? { ...m, ...updates } : m)));
+    };
+
+    const removeMutation = (index: number) => {
+        onChange(mutations.filter((_, i) => i !== index));
+    };
+
+    return (
+        <div className="form-group">
+            <label className="form-label">{label} (applied in order)</label>
+            {mutations.map((mutation, index) => (
+                <div key={index} className="matcher-row">
+                    <select
+                        className="form-select"
+                        value={mutation.operation}
+                        onChange={(e) => updateMutation(index, { operation: e.target.value as HeaderOperation })}
+                    >
+                        {HEADER_OPERATIONS.map((operation) => (
+                            <option key={operation.value} value={operation.value}>{operation.label}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="text"
+                        className="form-input form-input--mono"
+                        placeholder={mutation.regex ? '^x-' : namePlaceholder}
+                        value={mutation.name}
+                        onChange={(e) => updateMutation(index, { name: e.target.value })}
+                        required
+                    />
+                    <button
+                        type="button"
+                        className={`btn btn--small ${mutation.regex ? 'btn--primary' : ''}`}
+                        onClick={() => updateMutation(index, { regex: mutation.regex ? undefined : true })}
+                        title="Match names by regex"
+                    >
+                        .*
+                    </button>
+                    {mutation.operation === 'rewrite' && (
+                        <input
+                            type="text"
+                            className="form-input form-input--mono"
+                            placeholder="pattern (whole value)"
+                            value={mutation.pattern ?? ''}
+                            onChange={(e) => updateMutation(index, { pattern: e.target.value || undefined })}
+                        />
+                    )}
+                    {mutation.operation !== 'remove' && (
+                        <input
+                            type="text"
+                            className="form-input form-input--mono"
+                            placeholder="value"
+                            value={mutation.value ?? ''}
+                            onChange={(e) => updateMutation(index, { value: e.target.value })}
+                        />
+                    )}
+                    <button
+                        type="button"
+                        className="btn btn--small btn--icon btn--danger"
+                        onClick={() => removeMutation(index)}
+                        title="Remove change"
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+            <button
+                type="button"
+                className="btn btn--small"
+                onClick={() => onChange([...mutations, { operation: 'set', name: '', value: '' }])}
+            >
+                + Add Change
+            </button>
+        </div>
+    );
+}
+
+/**
+ * Parameters of a 'mutate-request' effect: what to change in the request
+ * before it is forwarded upstream.
+ */
+function RequestMutationFields({ effect, onChange }: EffectFieldsProps) {
+    return (
+        <>
+            <MutationList
+                label="Request Headers"
+                namePlaceholder="Authorization"
+                mutations={effect.requestHeaderMutations ?? []}
+                onChange={(requestHeaderMutations) => onChange({ requestHeaderMutations })}
+            />
+            <MutationList
+                label="Query Parameters"
+                namePlaceholder="page"
+                mutations={effect.queryMutations ?? []}
+                onChange={(queryMutations) => onChange({ queryMutations })}
+            />
+            <div className="form-group">
+                <label className="form-label">Truncate Body To (bytes)</label>
+                <input
+                    type="number"
+                    className="form-input"
+                    min="0"
+                    placeholder="unchanged"
+                    value={effect.requestBodyBytes ?? ''}
+                    onChange={(e) => onChange({ requestBodyBytes: parseNumber(e.target.value) })}
+                />
+            </div>
+            <div className="form-group">
+                <label className="form-label">Forward As Method</label>
+                <select
+                    className="form-select"
+                    value={effect.requestMethod ?? ''}
+                    onChange={(e) => onChange({ requestMethod: (e.target.value || undefined) as ChaosEffect['requestMethod'] })}
+                >
+                    <option value="">Unchanged</option>
+                    {HTTP_METHODS.filter(method => method !== '*').map((method) => (
+                        <option key={method} value={method}>{method}</option>
+                    ))}
+                </select>
+                <p className="form-hint">Hop-by-hop headers such as Host are managed by the proxy and left unchanged</p>
+            </div>
+        </>
     );
 }
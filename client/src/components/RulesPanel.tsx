@@ -2,31 +2,89 @@
  * RulesPanel Component
  * 
  * Displays the list of chaos rules and allows adding/editing/deleting rules.
+ * Rules can be dragged to change their evaluation order. Scheduled
+ * (flapping) rules show their current phase, pushed over the WebSocket.
  */
 
 import { useState, useEffect } from 'react';
-import { ChaosRule } from '../types';
+import { ChaosRule, ChaosRuleDraft, RulePhase } from '../types';
 import * as api from '../api';
 import { RuleEditor } from './RuleEditor';
 
+const HITS_POLL_INTERVAL_MS = 2000;
+
 export function RulesPanel() {
     const [rules, setRules] = useState<ChaosRule[]>([]);
     const [editingRule, setEditingRule] = useState<ChaosRule | null>(null);
     const [isCreating, setIsCreating] = useState(false);
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [hits, setHits] = useState<Record<string, number>>({});
+    const [phases, setPhases] = useState<Record<string, RulePhase>>({});
+    const [now, setNow] = useState(Date.now());
 
     // Load rules on mount
     useEffect(() => {
         loadRules();
     }, []);
 
+    // Poll hit counters while the panel is mounted
+    useEffect(() => {
+        loadHits();
+        const interval = setInterval(loadHits, HITS_POLL_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Follow phase changes of scheduled rules, ticking once a second for the countdown
+    useEffect(() => {
+        const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+        const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+        ws.onmessage = (event) => {
+            try {
+                const data = JSON.parse(event.data);
+                if (data.type === 'rule-phase' && data.phase) {
+                    setPhases((prev) => ({ ...prev, [data.phase.ruleId]: data.phase }));
+                }
+            } catch {
+                // Ignore parse errors
+            }
+        };
+
+        const tick = setInterval(() => setNow(Date.now()), 1000);
+        return () => {
+            ws.close();
+            clearInterval(tick);
+        };
+    }, []);
+
     const loadRules = async () => {
         const res = await api.getRules();
         if (res.success && res.data) {
             setRules(res.data);
         }
+        loadPhases();
+    };
+
+    const loadPhases = async () => {
+        const res = await api.getRulePhases();
+        if (res.success && res.data) {
+            setPhases(Object.fromEntries(res.data.map((phase) => [phase.ruleId, phase])));
+        }
+    };
+
+    const loadHits = async () => {
+        const res = await api.getRuleHits();
+        if (res.success && res.data) {
+            setHits(res.data);
+        }
     };
 
-    const handleCreate = async (ruleData: Omit<ChaosRule, 'id'>) => {
+    const handleResetHits = async (id?: string) => {
+        await api.resetRuleHits(id);
+        loadHits();
+    };
+
+    const handleCreate = async (ruleData: ChaosRuleDraft) => {
         const res = await api.createRule(ruleData);
         if (res.success) {
             setIsCreating(false);
@@ -55,6 +113,28 @@ export function RulesPanel() {
         loadRules();
     };
 
+    /**
+     * Move the dragged rule to the drop target's position and persist the
+     * new order. The list updates optimistically and reloads on failure.
+     */
+    const handleDrop = async (targetId: string) => {
+        const sourceId = draggedId;
+        setDraggedId(null);
+        if (!sourceId || sourceId === targetId) return;
+
+        const reordered = rules.filter(r => r.id !== sourceId);
+        const targetIndex = rules.findIndex(r => r.id === targetId);
+        reordered.splice(targetIndex, 0, rules.find(r => r.id === sourceId)!);
+        setRules(reordered);
+
+        const res = await api.reorderRules(reordered.map(r => r.id));
+        if (res.success && res.data) {
+            setRules(res.data);
+        } else {
+            loadRules();
+        }
+    };
+
     const getChaosTypeClass = (type: string) => {
         return `badge badge--chaos badge--chaos-${type}`;
     };
@@ -92,9 +172,14 @@ export function RulesPanel() {
         <div className="panel">
             <div className="panel-header">
                 <span className="panel-title">🎯 Chaos Rules</span>
-                <button className="btn btn--primary btn--small" onClick={() => setIsCreating(true)}>
-                    + Add Rule
-                </button>
+                <div className="flex gap-sm">
+                    <button className="btn btn--small" onClick={() => handleResetHits()} title="Reset all hit counters">
+                        Reset Hits
+                    </button>
+                    <button className="btn btn--primary btn--small" onClick={() => setIsCreating(true)}>
+                        + Add Rule
+                    </button>
+                </div>
             </div>
             <div className="panel-content panel-content--no-padding">
                 {rules.length === 0 ? (
@@ -110,8 +195,14 @@ export function RulesPanel() {
                         {rules.map((rule) => (
                             <li
                                 key={rule.id}
-                                className={`rule-item ${!rule.enabled ? 'rule-item--disabled' : ''}`}
+                                className={`rule-item ${!rule.enabled ? 'rule-item--disabled' : ''} ${draggedId === rule.id ? 'rule-item--dragging' : ''}`}
+                                draggable
+                                onDragStart={() => setDraggedId(rule.id)}
+                                onDragEnd={() => setDraggedId(null)}
+                                onDragOver={(e) => e.preventDefault()}
+                                onDrop={() => handleDrop(rule.id)}
                             >
+                                <span className="rule-drag-handle" title="Drag to reorder">⋮⋮</span>
                                 <label className="toggle">
                                     <input
                                         type="checkbox"
@@ -124,13 +215,43 @@ export function RulesPanel() {
                                 <div className="rule-info">
                                     <div className="rule-name">
                                         {rule.name}
-                                        <span className={getChaosTypeClass(rule.chaosType)} style={{ marginLeft: '8px' }}>
-                                            {rule.chaosType}
+                                        {rule.effects.map((effect, index) => (
+                                            <span
+                                                key={index}
+                                                className={getChaosTypeClass(effect.type)}
+                                                style={{ marginLeft: '8px' }}
+                                            >
+                                                {effect.type}
+                                            </span>
+                                        ))}
+                                    </div>
+                                    <div className="rule-pattern">
+                                        {rule.hostPattern && `${rule.hostPattern} `}
+                                        {rule.pathPattern}
+                                        <span className="rule-hits" title="Matched requests since last reset">
+                                            {hits[rule.id] ?? 0} hits
+                                            {rule.trigger && ` · ${rule.trigger.mode} ${rule.trigger.count}`}
                                         </span>
+                                        {rule.enabled && rule.schedule && phases[rule.id] && (
+                                            <span
+                                                className={`badge badge--status ${phases[rule.id].phase === 'down' ? 'badge--status-error' : 'badge--status-success'}`}
+                                                style={{ marginLeft: '8px' }}
+                                                title="Flapping outage phase"
+                                            >
+                                                {phases[rule.id].phase}{' '}
+                                                {Math.max(0, Math.ceil((Date.parse(phases[rule.id].until) - now) / 1000))}s
+                                            </span>
+                                        )}
                                     </div>
-                                    <div className="rule-pattern">{rule.pathPattern}</div>
                                 </div>
                                 <div className="rule-actions">
+                                    <button
+                                        className="btn btn--small btn--icon"
+                                        onClick={() => handleResetHits(rule.id)}
+                                        title="Reset hit counter"
+                                    >
+                                        ↺
+                                    </button>
                                     <button
                                         className="btn btn--small btn--icon"
                                         onClick={() => setEditingRule(rule)}
@@ -82,8 +82,12 @@ export function ScenariosPanel({ onScenarioApplied }: ScenariosPanelProps) {
     const applyScenario = async (scenario: ChaosScenario) => {
         setLoading(true);
         try {
-            // Update config
-            const configResult = await updateConfig(scenario.config);
+            // Update config (a scenario without a seed or routes clears the current ones)
+            const configResult = await updateConfig({
+                ...scenario.config,
+                upstreams: scenario.config.upstreams ?? [],
+                seed: scenario.config.seed ?? null,
+            });
             if (!configResult.success) {
                 throw new Error(configResult.error || 'Failed to update config');
             }
@@ -96,8 +100,9 @@ export function ScenariosPanel({ onScenarioApplied }: ScenariosPanelProps) {
                 }
             }
 
-            // Create new rules in order
-            for (const rule of scenario.rules) {
+            // Create new rules in priority order
+            const orderedRules = [...scenario.rules].sort((a, b) => a.priority - b.priority);
+            for (const rule of orderedRules) {
                 // Remove id to let server generate new ones
                 const { id, ...ruleWithoutId } = rule;
                 await createRule(ruleWithoutId);
@@ -0,0 +1,68 @@
+/**
+ * Latency Distributions
+ *
+ * Mirrors the server's latency sampling so the rule editor can preview the
+ * delays an effect will produce.
+ */
+
+import { ChaosEffect, LatencyDistribution } from './types';
+
+const DEFAULT_CAP_MS = 60_000;
+const Z_99 = 2.3263;
+
+/**
+ * The distribution an effect uses: explicit, or fixed when `latencyMs` is
+ * set and uniform otherwise.
+ */
+export function latencyDistributionOf(effect: ChaosEffect): LatencyDistribution {
+    return effect.latencyDistribution ?? (effect.latencyMs !== undefined ? 'fixed' : 'uniform');
+}
+
+/**
+ * Draw one delay in whole milliseconds, as the server would.
+ */
+export function sampleLatency(effect: ChaosEffect): number {
+    const distribution = latencyDistributionOf(effect);
+
+    if (distribution === 'fixed') {
+        return effect.latencyMs ?? 0;
+    }
+    if (distribution === 'uniform') {
+        const min = effect.latencyMinMs ?? 100;
+        const max = effect.latencyMaxMs ?? 1000;
+        return Math.floor(Math.random() * (max - min + 1)) + min;
+    }
+
+    let sample: number;
+    switch (distribution) {
+        case 'normal': {
+            const mean = effect.latencyMeanMs ?? 500;
+            sample = mean + standardNormal() * (effect.latencyStdDevMs ?? mean / 4);
+            break;
+        }
+        case 'log-normal':
+            sample = (effect.latencyMedianMs ?? 200) * Math.exp(standardNormal() * (effect.latencySigma ?? 1));
+            break;
+        case 'exponential':
+            sample = -(effect.latencyMeanMs ?? 500) * Math.log(1 - Math.random());
+            break;
+        case 'pareto':
+            sample = (effect.latencyMinMs ?? 100) / Math.pow(1 - Math.random(), 1 / (effect.latencyParetoAlpha ?? 1.5));
+            break;
+        case 'percentile': {
+            const p50 = effect.latencyP50Ms ?? 80;
+            const p99 = effect.latencyP99Ms ?? 2000;
+            sample = p50 * Math.exp(standardNormal() * (Math.log(Math.max(p99, p50) / p50) / Z_99));
+            break;
+        }
+        default:
+            sample = 0;
+    }
+    return Math.round(Math.min(Math.max(0, sample), effect.latencyMaxMs ?? DEFAULT_CAP_MS));
+}
+
+function standardNormal(): number {
+    const u1 = 1 - Math.random();
+    const u2 = Math.random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
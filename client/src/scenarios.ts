@@ -4,11 +4,54 @@
  * Functions for managing chaos scenarios: storage, validation, URL encoding.
  */
 
-import { ChaosScenario, ChaosRule, ProxyConfig, ChaosType, HttpMethod } from './types';
+import {
+    ChaosScenario,
+    ChaosRule,
+    ChaosEffect,
+    ProxyConfig,
+    ChaosType,
+    CorruptionStrategy,
+    ErrorTemplate,
+    HeaderOperation,
+    HttpMethod,
+    LatencyDistribution,
+    LatencyPhase,
+    LimiterAlgorithm,
+    LimiterKeySource,
+    MatchCondition,
+    MatchOperator,
+    MatchSource,
+    RateLimitHeaderStyle,
+    SchedulePhase,
+    TriggerMode,
+    UpstreamRoute,
+    WebSocketDirection,
+} from './types';
 
 const STORAGE_KEY = 'chaos_scenarios';
-const VALID_CHAOS_TYPES: ChaosType[] = ['latency', 'error', 'timeout', 'corrupt', 'rate-limit', 'token-bucket'];
+const VALID_CHAOS_TYPES: ChaosType[] = [
+    'latency', 'error', 'timeout', 'corrupt', 'rate-limit', 'token-bucket', 'sequence', 'throttle', 'reset',
+    'headers', 'mutate-request', 'status-rewrite', 'concurrency', 'stream', 'websocket',
+    'graphql-error', 'graphql-partial', 'graphql-latency',
+];
 const VALID_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', '*'];
+const VALID_MATCH_SOURCES: MatchSource[] = ['header', 'query', 'body', 'graphql'];
+const VALID_MATCH_OPERATORS: MatchOperator[] = ['equals', 'regex', 'exists', 'not-exists'];
+const VALID_TRIGGER_MODES: TriggerMode[] = ['always', 'first-n', 'every-nth', 'after-n'];
+const VALID_LATENCY_PHASES: LatencyPhase[] = ['before-upstream', 'before-headers', 'before-body'];
+const VALID_LATENCY_DISTRIBUTIONS: LatencyDistribution[] = [
+    'fixed', 'uniform', 'normal', 'log-normal', 'exponential', 'pareto', 'percentile',
+];
+const VALID_HEADER_OPERATIONS: HeaderOperation[] = ['remove', 'set', 'rewrite'];
+const VALID_SCHEDULE_PHASES: SchedulePhase[] = ['down', 'up'];
+const VALID_LIMITER_ALGORITHMS: LimiterAlgorithm[] = ['token-bucket', 'fixed-window', 'sliding-window'];
+const VALID_LIMITER_KEY_SOURCES: LimiterKeySource[] = ['global', 'ip', 'api-key', 'header'];
+const VALID_RATE_LIMIT_HEADER_STYLES: RateLimitHeaderStyle[] = ['x-ratelimit', 'ratelimit', 'none'];
+const VALID_WEBSOCKET_DIRECTIONS: WebSocketDirection[] = ['both', 'client-to-upstream', 'upstream-to-client'];
+const VALID_ERROR_TEMPLATES: ErrorTemplate[] = ['chaos-json', 'nginx', 'aws-alb', 'problem-json', 'empty'];
+const VALID_CORRUPTION_STRATEGIES: CorruptionStrategy[] = [
+    'remove', 'nullify', 'flip-type', 'truncate-string', 'inject-field', 'reorder-array', 'invalid-json',
+];
 
 // ============================================================================
 // Validation
@@ -20,7 +63,22 @@ const VALID_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', '*
 export function validateConfig(config: unknown): config is ProxyConfig {
     if (typeof config !== 'object' || config === null) return false;
     const c = config as Record<string, unknown>;
-    return typeof c.targetUrl === 'string' && typeof c.enabled === 'boolean';
+    if (typeof c.targetUrl !== 'string' || typeof c.enabled !== 'boolean') return false;
+    if (c.upstreams !== undefined) {
+        if (!Array.isArray(c.upstreams)) return false;
+        if (!c.upstreams.every(validateUpstreamRoute)) return false;
+    }
+    return c.seed === undefined || Number.isInteger(c.seed);
+}
+
+function validateUpstreamRoute(route: unknown): route is UpstreamRoute {
+    if (typeof route !== 'object' || route === null) return false;
+    const r = route as Record<string, unknown>;
+    if (typeof r.name !== 'string' || r.name === '') return false;
+    if (typeof r.targetUrl !== 'string') return false;
+    if (r.pathPrefix !== undefined && (typeof r.pathPrefix !== 'string' || !r.pathPrefix.startsWith('/'))) return false;
+    if (r.host !== undefined && typeof r.host !== 'string') return false;
+    return r.stripPrefix === undefined || typeof r.stripPrefix === 'boolean';
 }
 
 /**
@@ -33,15 +91,169 @@ export function validateRule(rule: unknown): rule is ChaosRule {
     if (typeof r.id !== 'string') return false;
     if (typeof r.name !== 'string') return false;
     if (typeof r.enabled !== 'boolean') return false;
+    if (typeof r.priority !== 'number') return false;
     if (typeof r.pathPattern !== 'string') return false;
+    if (r.hostPattern !== undefined && r.hostPattern !== null && typeof r.hostPattern !== 'string') return false;
     if (!Array.isArray(r.methods)) return false;
     if (!r.methods.every((m: unknown) => VALID_METHODS.includes(m as HttpMethod))) return false;
-    if (typeof r.chaosType !== 'string') return false;
-    if (!VALID_CHAOS_TYPES.includes(r.chaosType as ChaosType)) return false;
+    if (r.matchers !== undefined) {
+        if (!Array.isArray(r.matchers)) return false;
+        if (!r.matchers.every(validateMatchCondition)) return false;
+    }
+    if (r.trigger !== undefined && !validateTrigger(r.trigger)) return false;
+    if (r.schedule !== undefined && r.schedule !== null && !validateSchedule(r.schedule)) return false;
+    if (r.upstream !== undefined && r.upstream !== null && typeof r.upstream !== 'string') return false;
+    if (!isValidProbability(r.probability)) return false;
+    if (!Array.isArray(r.effects) || r.effects.length === 0) return false;
+    if (!r.effects.every(validateEffect)) return false;
 
     return true;
 }
 
+/**
+ * Validate a ChaosEffect object.
+ */
+export function validateEffect(effect: unknown): effect is ChaosEffect {
+    if (typeof effect !== 'object' || effect === null) return false;
+    const e = effect as Record<string, unknown>;
+    if (typeof e.type !== 'string' || !VALID_CHAOS_TYPES.includes(e.type as ChaosType)) return false;
+    if (e.sequenceSteps !== undefined) {
+        if (!Array.isArray(e.sequenceSteps)) return false;
+        if (!e.sequenceSteps.every(step => isValidStatusCode(step) || step === 'timeout' || step === 'pass')) return false;
+    }
+    if (e.latencyPhase !== undefined && !VALID_LATENCY_PHASES.includes(e.latencyPhase as LatencyPhase)) return false;
+    if (e.latencyDistribution !== undefined &&
+        !VALID_LATENCY_DISTRIBUTIONS.includes(e.latencyDistribution as LatencyDistribution)) return false;
+    if (e.requestMethod !== undefined && (e.requestMethod === '*' || !VALID_METHODS.includes(e.requestMethod as HttpMethod))) {
+        return false;
+    }
+    if (e.limiterAlgorithm !== undefined && !VALID_LIMITER_ALGORITHMS.includes(e.limiterAlgorithm as LimiterAlgorithm)) return false;
+    if (e.limiterKeySource !== undefined && !VALID_LIMITER_KEY_SOURCES.includes(e.limiterKeySource as LimiterKeySource)) return false;
+    if (e.rateLimitHeaders !== undefined &&
+        !VALID_RATE_LIMIT_HEADER_STYLES.includes(e.rateLimitHeaders as RateLimitHeaderStyle)) return false;
+    if (e.wsDirection !== undefined && !VALID_WEBSOCKET_DIRECTIONS.includes(e.wsDirection as WebSocketDirection)) return false;
+    if (e.corruptStrategies !== undefined) {
+        if (!Array.isArray(e.corruptStrategies)) return false;
+        if (!e.corruptStrategies.every(strategy => VALID_CORRUPTION_STRATEGIES.includes(strategy))) return false;
+    }
+    if (e.errorTemplate !== undefined && !VALID_ERROR_TEMPLATES.includes(e.errorTemplate as ErrorTemplate)) return false;
+    if (e.errorBody !== undefined && typeof e.errorBody !== 'string') return false;
+    if (e.errorHeaders !== undefined) {
+        if (typeof e.errorHeaders !== 'object' || e.errorHeaders === null) return false;
+        if (!Object.values(e.errorHeaders).every(value => typeof value === 'string')) return false;
+    }
+    if (e.statusWeights !== undefined) {
+        if (!Array.isArray(e.statusWeights)) return false;
+        if (!e.statusWeights.every(entry =>
+            typeof entry === 'object' && entry !== null &&
+            typeof entry.status === 'number' && typeof entry.weight === 'number')) return false;
+    }
+    if (e.rewriteFromStatuses !== undefined) {
+        if (!Array.isArray(e.rewriteFromStatuses) || !e.rewriteFromStatuses.every(s => typeof s === 'number')) return false;
+    }
+    if (e.corruptPaths !== undefined) {
+        if (!Array.isArray(e.corruptPaths) || !e.corruptPaths.every(path => typeof path === 'string')) return false;
+    }
+    if (e.graphqlNullPaths !== undefined) {
+        if (!Array.isArray(e.graphqlNullPaths) || !e.graphqlNullPaths.every(path => typeof path === 'string')) return false;
+    }
+    if (e.graphqlFieldLatencyMs !== undefined) {
+        if (typeof e.graphqlFieldLatencyMs !== 'object' || e.graphqlFieldLatencyMs === null) return false;
+        if (!Object.values(e.graphqlFieldLatencyMs).every(value => typeof value === 'number')) return false;
+    }
+    for (const list of [e.headerMutations, e.requestHeaderMutations, e.queryMutations]) {
+        if (list === undefined) continue;
+        if (!Array.isArray(list) || !list.every(validateHeaderMutation)) return false;
+    }
+    return isValidProbability(e.probability);
+}
+
+/**
+ * Validate a MatchCondition object.
+ */
+export function validateMatchCondition(condition: unknown): condition is MatchCondition {
+    if (typeof condition !== 'object' || condition === null) return false;
+    const c = condition as Record<string, unknown>;
+
+    if (!VALID_MATCH_SOURCES.includes(c.source as MatchSource)) return false;
+    if (typeof c.key !== 'string' || c.key === '') return false;
+    if (!VALID_MATCH_OPERATORS.includes(c.operator as MatchOperator)) return false;
+    if (c.value !== undefined && typeof c.value !== 'string') return false;
+
+    return true;
+}
+
+/**
+ * Validate a HeaderMutation object.
+ */
+function validateHeaderMutation(mutation: unknown): boolean {
+    if (typeof mutation !== 'object' || mutation === null) return false;
+    const m = mutation as Record<string, unknown>;
+    return VALID_HEADER_OPERATIONS.includes(m.operation as HeaderOperation) &&
+        typeof m.name === 'string' && m.name !== '';
+}
+
+/**
+ * Validate a RuleTrigger object.
+ */
+function validateTrigger(trigger: unknown): boolean {
+    if (typeof trigger !== 'object' || trigger === null) return false;
+    const t = trigger as Record<string, unknown>;
+    return VALID_TRIGGER_MODES.includes(t.mode as TriggerMode) &&
+        typeof t.count === 'number' && Number.isInteger(t.count) && t.count >= 1;
+}
+
+function validateSchedule(schedule: unknown): boolean {
+    if (typeof schedule !== 'object' || schedule === null) return false;
+    const s = schedule as Record<string, unknown>;
+    const isPositive = (value: unknown) => typeof value === 'number' && value > 0;
+    const isJitter = (value: unknown) => value === undefined || (typeof value === 'number' && value >= 0);
+    return isPositive(s.downMs) && isPositive(s.upMs) && isJitter(s.downJitterMs) && isJitter(s.upJitterMs) &&
+        (s.startPhase === undefined || VALID_SCHEDULE_PHASES.includes(s.startPhase as SchedulePhase));
+}
+
+function isValidStatusCode(status: unknown): boolean {
+    return typeof status === 'number' && Number.isInteger(status) && status >= 100 && status <= 599;
+}
+
+/**
+ * Probabilities are optional percentages between 0 and 100.
+ */
+function isValidProbability(probability: unknown): boolean {
+    if (probability === undefined) return true;
+    return typeof probability === 'number' && probability >= 0 && probability <= 100;
+}
+
+/**
+ * Upgrade a rule saved before rules held an effect list: the single
+ * `chaosType` and its flat parameters become a one-element `effects` array.
+ * Rules already in the current shape are returned unchanged.
+ */
+function migrateLegacyRule(rule: unknown): unknown {
+    if (typeof rule !== 'object' || rule === null) return rule;
+    const { chaosType, ...rest } = rule as Record<string, unknown>;
+    if ('effects' in rest || typeof chaosType !== 'string') return rule;
+
+    const { id, name, enabled, pathPattern, methods, probability, ...params } = rest;
+    return { id, name, enabled, pathPattern, methods, probability, effects: [{ ...params, type: chaosType }] };
+}
+
+/**
+ * Upgrade all legacy rules of a parsed scenario before validation. Rules
+ * saved without a priority take their position in the rules array.
+ */
+function migrateLegacyScenario(scenario: unknown): unknown {
+    if (typeof scenario !== 'object' || scenario === null) return scenario;
+    const s = scenario as Record<string, unknown>;
+    if (!Array.isArray(s.rules)) return scenario;
+    return { ...s, rules: s.rules.map((rule, index) => withPriority(migrateLegacyRule(rule), index)) };
+}
+
+function withPriority(rule: unknown, index: number): unknown {
+    if (typeof rule !== 'object' || rule === null || 'priority' in rule) return rule;
+    return { ...rule, priority: index };
+}
+
 /**
  * Validate a complete ChaosScenario object.
  * Returns { valid: true } or { valid: false, error: string }.
@@ -95,7 +307,7 @@ export function getSavedScenarios(): ChaosScenario[] {
         if (!stored) return [];
         const parsed = JSON.parse(stored);
         if (!Array.isArray(parsed)) return [];
-        return parsed.filter((s): s is ChaosScenario => validateScenario(s).valid);
+        return parsed.map(migrateLegacyScenario).filter((s): s is ChaosScenario => validateScenario(s).valid);
     } catch {
         return [];
     }
@@ -183,7 +395,7 @@ export function importScenarioFromFile(file: File): Promise<ChaosScenario> {
         reader.onload = () => {
             try {
                 const text = reader.result as string;
-                const parsed = JSON.parse(text);
+                const parsed = migrateLegacyScenario(JSON.parse(text));
                 const validation = validateScenario(parsed);
                 if (!validation.valid) {
                     reject(new Error(validation.error));
@@ -224,7 +436,7 @@ export function decodeScenarioFromUrl(encoded: string): ChaosScenario | null {
         if (pad) base64 += '='.repeat(4 - pad);
 
         const json = decodeURIComponent(escape(atob(base64)));
-        const parsed = JSON.parse(json);
+        const parsed = migrateLegacyScenario(JSON.parse(json));
         const validation = validateScenario(parsed);
         if (!validation.valid) return null;
         return parsed as ChaosScenario;
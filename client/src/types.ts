@@ -4,49 +4,221 @@
  * Mirrors the server types for type safety across the stack.
  */
 
-export type ChaosType = 'latency' | 'error' | 'timeout' | 'corrupt' | 'rate-limit' | 'token-bucket';
+export type ChaosType =
+    | 'latency' | 'error' | 'timeout' | 'corrupt' | 'rate-limit' | 'token-bucket' | 'sequence' | 'throttle'
+    | 'reset' | 'headers' | 'mutate-request' | 'status-rewrite' | 'concurrency' | 'stream' | 'websocket'
+    | 'graphql-error' | 'graphql-partial' | 'graphql-latency';
+export type SequenceStep = number | 'timeout' | 'pass';
+export type SequenceKeySource = 'header' | 'ip';
+export type SchedulePhase = 'down' | 'up';
+export type LimiterAlgorithm = 'token-bucket' | 'fixed-window' | 'sliding-window';
+export type LimiterKeySource = 'global' | 'ip' | 'api-key' | 'header';
+export type RateLimitHeaderStyle = 'x-ratelimit' | 'ratelimit' | 'none';
+export type WebSocketDirection = 'both' | 'client-to-upstream' | 'upstream-to-client';
+export type LatencyDistribution =
+    | 'fixed' | 'uniform' | 'normal' | 'log-normal' | 'exponential' | 'pareto' | 'percentile';
+export type LatencyPhase = 'before-upstream' | 'before-headers' | 'before-body';
+export type HeaderOperation = 'remove' | 'set' | 'rewrite';
+export type ErrorTemplate = 'chaos-json' | 'nginx' | 'aws-alb' | 'problem-json' | 'empty';
+export type CorruptionStrategy =
+    | 'remove' | 'nullify' | 'flip-type' | 'truncate-string' | 'inject-field' | 'reorder-array' | 'invalid-json';
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | '*';
 
-export interface ChaosRule {
-    id: string;
+export type MatchSource = 'header' | 'query' | 'body' | 'graphql';
+export type MatchOperator = 'equals' | 'regex' | 'exists' | 'not-exists';
+
+export interface MatchCondition {
+    source: MatchSource;
+    key: string;
+    operator: MatchOperator;
+    value?: string;
+}
+
+export interface HeaderMutation {
+    operation: HeaderOperation;
     name: string;
-    enabled: boolean;
-    pathPattern: string;
-    methods: HttpMethod[];
-    chaosType: ChaosType;
+    regex?: boolean;
+    value?: string;
+    pattern?: string;
+}
+
+export interface WeightedStatus {
+    status: number;
+    weight: number;
+}
+
+export type TriggerMode = 'always' | 'first-n' | 'every-nth' | 'after-n';
+
+export interface RuleTrigger {
+    mode: TriggerMode;
+    count: number;
+}
+
+export interface ChaosEffect {
+    type: ChaosType;
+    probability?: number;
     latencyMs?: number;
     latencyMinMs?: number;
     latencyMaxMs?: number;
+    latencyPhase?: LatencyPhase;
+    latencyDistribution?: LatencyDistribution;
+    latencyMeanMs?: number;
+    latencyStdDevMs?: number;
+    latencyMedianMs?: number;
+    latencySigma?: number;
+    latencyParetoAlpha?: number;
+    latencyP50Ms?: number;
+    latencyP99Ms?: number;
     errorStatusCode?: number;
     errorMessage?: string;
+    statusWeights?: WeightedStatus[];
+    errorTemplate?: ErrorTemplate;
+    errorBody?: string;
+    errorContentType?: string;
+    errorHeaders?: Record<string, string>;
+    // Status rewrite parameters
+    rewriteFromStatuses?: number[];
+    rewriteStatusCode?: number;
     failRate?: number;
+    // JSON corruption parameters
+    corruptStrategies?: CorruptionStrategy[];
+    corruptPaths?: string[];
+    corruptDeep?: boolean;
+    corruptMutations?: number;
     // Token bucket parameters
     rps?: number;
     burst?: number;
+    limiterAlgorithm?: LimiterAlgorithm;
+    windowLimit?: number;
+    windowMs?: number;
+    limiterKeySource?: LimiterKeySource;
+    limiterKeyHeader?: string;
+    rateLimitHeaders?: RateLimitHeaderStyle;
+    // Concurrency limit parameters
+    maxConcurrent?: number;
+    queueSize?: number;
+    queueTimeoutMs?: number;
     // Timeout parameters
     timeoutMs?: number;
     jitterMs?: number;
+    // Per-client sequence parameters
+    sequenceSteps?: SequenceStep[];
+    sequenceKeySource?: SequenceKeySource;
+    sequenceKeyHeader?: string;
+    sequenceIdleMs?: number;
+    // Bandwidth throttle parameters
+    bytesPerSecond?: number;
+    chunkSize?: number;
+    // Connection reset parameters
+    resetFraction?: number;
+    // Stream chaos parameters
+    streamChunkDelayMs?: number;
+    streamDropPercent?: number;
+    streamCutAfterEvents?: number;
+    // WebSocket parameters
+    wsRefuseStatus?: number;
+    wsMessageDelayMs?: number;
+    wsDropPercent?: number;
+    wsDuplicatePercent?: number;
+    wsDirection?: WebSocketDirection;
+    wsCloseAfterMessages?: number;
+    wsCloseAfterMs?: number;
+    wsCloseCode?: number;
+    // GraphQL parameters
+    graphqlErrorMessage?: string;
+    graphqlErrorCode?: string;
+    graphqlNullPaths?: string[];
+    graphqlFieldLatencyMs?: Record<string, number>;
+    // Response header parameters
+    headerMutations?: HeaderMutation[];
+    // Outbound request parameters
+    requestHeaderMutations?: HeaderMutation[];
+    queryMutations?: HeaderMutation[];
+    requestBodyBytes?: number;
+    requestMethod?: Exclude<HttpMethod, '*'>;
+}
+
+export interface ChaosRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    priority: number;
+    pathPattern: string;
+    hostPattern?: string | null;    // null clears the host pattern on update
+    methods: HttpMethod[];
+    matchers?: MatchCondition[] | null; // null clears the conditions on update
+    trigger?: RuleTrigger | null;   // null clears the trigger on update
+    probability?: number | null;    // null clears the probability on update
+    schedule?: RuleSchedule | null; // null clears the schedule on update
+    upstream?: string | null;       // null clears the upstream scope on update
+    effects: ChaosEffect[];
+}
+
+export interface RuleSchedule {
+    downMs: number;
+    upMs: number;
+    downJitterMs?: number;
+    upJitterMs?: number;
+    startPhase?: SchedulePhase;
+}
+
+export interface RulePhase {
+    ruleId: string;
+    phase: SchedulePhase;
+    since: string;
+    until: string;
 }
 
+/**
+ * A rule not yet stored on the server. The server assigns the ID, and the
+ * priority defaults to last place.
+ */
+export type ChaosRuleDraft = Omit<ChaosRule, 'id' | 'priority'> & { priority?: number };
+
 export interface RequestLog {
     id: string;
     timestamp: string;
+    sequence: number;
+    seed?: number;
     method: string;
     path: string;
+    upstream?: string;
     headers: Record<string, string>;
-    statusCode?: number | 'timeout';
+    statusCode?: number | 'timeout' | 'reset';
+    upstreamStatusCode?: number;
+    queueWaitMs?: number;
     responseTime?: number;
+    websocket?: WebSocketStats;
     chaosApplied: boolean;
-    chaosType?: ChaosType;
+    chaosTypes?: ChaosType[];
     chaosRuleId?: string;
     chaosRuleName?: string;
     chaosDetails?: string;
     actionsApplied?: string[];
 }
 
+export interface WebSocketStats {
+    messagesFromClient: number;
+    messagesFromUpstream: number;
+    dropped: number;
+    duplicated: number;
+    closeCode: number;
+    closedBy: 'client' | 'upstream' | 'chaos';
+}
+
+export interface UpstreamRoute {
+    name: string;
+    pathPrefix?: string;
+    host?: string;
+    targetUrl: string;
+    stripPrefix?: boolean;
+}
+
 export interface ProxyConfig {
     targetUrl: string;
+    upstreams?: UpstreamRoute[];
     enabled: boolean;
+    seed?: number;
 }
 
 export interface ApiResponse<T> {
@@ -14,13 +14,320 @@ import {
     createRule,
     updateRule,
     deleteRule,
+    reorderRules,
+    getRuleHits,
+    resetRuleHits,
     getLogs,
     clearLogs
 } from './state.js';
-import { ChaosRule } from './types.js';
+import {
+    ChaosRule,
+    ChaosEffect,
+    ChaosType,
+    CorruptionStrategy,
+    HeaderMutation,
+    HeaderOperation,
+    HttpMethod,
+    LatencyDistribution,
+    LatencyPhase,
+    LimiterAlgorithm,
+    LimiterKeySource,
+    MatchCondition,
+    MatchOperator,
+    MatchSource,
+    NewChaosRule,
+    ProxyConfig,
+    RateLimitHeaderStyle,
+    RuleSchedule,
+    RuleTrigger,
+    SchedulePhase,
+    TriggerMode,
+    UpstreamRoute,
+    WebSocketDirection,
+} from './types.js';
+import { isValidJsonPath } from './json-path.js';
+import { isErrorTemplate } from './error-templates.js';
+import { getRulePhases, restartRuleSchedules, syncRuleSchedules } from './schedule.js';
+import { DEFAULT_UPSTREAM, FORWARD_UPSTREAM, isValidUpstreamTarget } from './routing.js';
+import { ABNORMAL_CLOSURE, isSendableCloseCode } from './chaos-engine.js';
+import { getCaCertificatePem } from './certificate-authority.js';
 
 export const apiRouter = Router();
 
+const VALID_CHAOS_TYPES: ChaosType[] = [
+    'latency', 'error', 'timeout', 'corrupt', 'rate-limit', 'token-bucket', 'sequence', 'throttle', 'reset',
+    'headers', 'mutate-request', 'status-rewrite', 'concurrency', 'stream', 'websocket',
+    'graphql-error', 'graphql-partial', 'graphql-latency',
+];
+
+const VALID_LATENCY_PHASES: LatencyPhase[] = ['before-upstream', 'before-headers', 'before-body'];
+const VALID_LATENCY_DISTRIBUTIONS: LatencyDistribution[] = [
+    'fixed', 'uniform', 'normal', 'log-normal', 'exponential', 'pareto', 'percentile',
+];
+const VALID_HEADER_OPERATIONS: HeaderOperation[] = ['remove', 'set', 'rewrite'];
+const VALID_REQUEST_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const VALID_LIMITER_ALGORITHMS: LimiterAlgorithm[] = ['token-bucket', 'fixed-window', 'sliding-window'];
+const VALID_LIMITER_KEY_SOURCES: LimiterKeySource[] = ['global', 'ip', 'api-key', 'header'];
+const VALID_RATE_LIMIT_HEADER_STYLES: RateLimitHeaderStyle[] = ['x-ratelimit', 'ratelimit', 'none'];
+const VALID_SCHEDULE_PHASES: SchedulePhase[] = ['down', 'up'];
+const VALID_MATCH_SOURCES: MatchSource[] = ['header', 'query', 'body', 'graphql'];
+const VALID_MATCH_OPERATORS: MatchOperator[] = ['equals', 'regex', 'exists', 'not-exists'];
+const VALID_TRIGGER_MODES: TriggerMode[] = ['always', 'first-n', 'every-nth', 'after-n'];
+const VALID_WEBSOCKET_DIRECTIONS: WebSocketDirection[] = ['both', 'client-to-upstream', 'upstream-to-client'];
+const VALID_CORRUPTION_STRATEGIES: CorruptionStrategy[] = [
+    'remove', 'nullify', 'flip-type', 'truncate-string', 'inject-field', 'reorder-array', 'invalid-json',
+];
+
+/**
+ * Effect parameters that the legacy single-effect rule shape carried at
+ * the top level of the rule.
+ */
+const LEGACY_EFFECT_PARAMS = [
+    'latencyMs', 'latencyMinMs', 'latencyMaxMs', 'errorStatusCode', 'errorMessage',
+    'failRate', 'rps', 'burst', 'timeoutMs', 'jitterMs',
+] as const;
+
+/**
+ * Rule payload as accepted by the API. Besides `effects`, the legacy
+ * single-effect shape (`chaosType` plus flat parameters) is still accepted.
+ */
+type RuleInput = Partial<ChaosRule> &
+    Partial<Pick<ChaosEffect, typeof LEGACY_EFFECT_PARAMS[number]>> &
+    { chaosType?: ChaosType };
+
+/**
+ * Resolve the effect list of a rule payload, converting the legacy
+ * single-effect shape. Returns undefined if the payload has neither.
+ */
+function resolveEffects(input: RuleInput): ChaosEffect[] | undefined {
+    if (Array.isArray(input.effects)) return input.effects;
+    if (!input.chaosType) return undefined;
+
+    const effect: ChaosEffect = { type: input.chaosType };
+    for (const param of LEGACY_EFFECT_PARAMS) {
+        if (input[param] !== undefined) {
+            (effect as unknown as Record<string, unknown>)[param] = input[param];
+        }
+    }
+    return [effect];
+}
+
+function isValidEffectList(effects: ChaosEffect[]): boolean {
+    return effects.length > 0 && effects.every(isValidEffect);
+}
+
+function isValidEffect(effect: ChaosEffect): boolean {
+    if (typeof effect !== 'object' || effect === null) return false;
+    if (!VALID_CHAOS_TYPES.includes(effect.type)) return false;
+    if (!isValidProbability(effect.probability)) return false;
+    if (effect.latencyPhase !== undefined && !VALID_LATENCY_PHASES.includes(effect.latencyPhase)) return false;
+    if (effect.latencyDistribution !== undefined &&
+        !VALID_LATENCY_DISTRIBUTIONS.includes(effect.latencyDistribution)) {
+        return false;
+    }
+    if (!isValidLatencyParameters(effect)) return false;
+    if (effect.requestMethod !== undefined && !VALID_REQUEST_METHODS.includes(effect.requestMethod)) return false;
+    if (effect.limiterAlgorithm !== undefined && !VALID_LIMITER_ALGORITHMS.includes(effect.limiterAlgorithm)) return false;
+    if (effect.limiterKeySource !== undefined && !VALID_LIMITER_KEY_SOURCES.includes(effect.limiterKeySource)) return false;
+    if (effect.rateLimitHeaders !== undefined && !VALID_RATE_LIMIT_HEADER_STYLES.includes(effect.rateLimitHeaders)) return false;
+    if (effect.limiterKeySource === 'header' && !effect.limiterKeyHeader) return false;
+    if (effect.rps !== undefined && (typeof effect.rps !== 'number' || effect.rps <= 0)) return false;
+    if (effect.burst !== undefined && (!Number.isInteger(effect.burst) || effect.burst < 1)) return false;
+    if (effect.windowLimit !== undefined && (!Number.isInteger(effect.windowLimit) || effect.windowLimit < 1)) return false;
+    if (effect.windowMs !== undefined && (typeof effect.windowMs !== 'number' || effect.windowMs <= 0)) return false;
+    if (effect.maxConcurrent !== undefined && (!Number.isInteger(effect.maxConcurrent) || effect.maxConcurrent < 1)) return false;
+    if (effect.queueSize !== undefined && (!Number.isInteger(effect.queueSize) || effect.queueSize < 0)) return false;
+    if (effect.queueTimeoutMs !== undefined && (typeof effect.queueTimeoutMs !== 'number' || effect.queueTimeoutMs < 0)) return false;
+    if (effect.streamChunkDelayMs !== undefined &&
+        (typeof effect.streamChunkDelayMs !== 'number' || effect.streamChunkDelayMs < 0)) {
+        return false;
+    }
+    if (effect.streamDropPercent !== undefined &&
+        (typeof effect.streamDropPercent !== 'number' || effect.streamDropPercent < 0 || effect.streamDropPercent > 100)) {
+        return false;
+    }
+    if (effect.streamCutAfterEvents !== undefined &&
+        (!Number.isInteger(effect.streamCutAfterEvents) || effect.streamCutAfterEvents < 0)) {
+        return false;
+    }
+    if (effect.sequenceSteps !== undefined &&
+        (!Array.isArray(effect.sequenceSteps) ||
+            !effect.sequenceSteps.every(step => step === 'timeout' || step === 'pass' || isValidStatusCode(step)))) {
+        return false;
+    }
+    if (!isValidWebSocketParameters(effect)) return false;
+    if (!isValidGraphQLParameters(effect)) return false;
+    if (effect.corruptStrategies !== undefined &&
+        (!Array.isArray(effect.corruptStrategies) ||
+            !effect.corruptStrategies.every(strategy => VALID_CORRUPTION_STRATEGIES.includes(strategy)))) {
+        return false;
+    }
+    if (effect.corruptPaths !== undefined &&
+        (!Array.isArray(effect.corruptPaths) ||
+            !effect.corruptPaths.every(path => typeof path === 'string' && isValidJsonPath(path)))) {
+        return false;
+    }
+    if (effect.errorTemplate !== undefined && !isErrorTemplate(effect.errorTemplate)) return false;
+    if (effect.errorBody !== undefined && typeof effect.errorBody !== 'string') return false;
+    if (effect.errorHeaders !== undefined &&
+        (typeof effect.errorHeaders !== 'object' || effect.errorHeaders === null ||
+            !Object.values(effect.errorHeaders).every(value => typeof value === 'string'))) {
+        return false;
+    }
+    if (effect.statusWeights !== undefined &&
+        (!Array.isArray(effect.statusWeights) ||
+            !effect.statusWeights.every(entry =>
+                typeof entry === 'object' && entry !== null && isValidStatusCode(entry.status) &&
+                typeof entry.weight === 'number' && entry.weight >= 0))) {
+        return false;
+    }
+    if (effect.rewriteFromStatuses !== undefined &&
+        (!Array.isArray(effect.rewriteFromStatuses) || !effect.rewriteFromStatuses.every(isValidStatusCode))) {
+        return false;
+    }
+    if (effect.rewriteStatusCode !== undefined && !isValidStatusCode(effect.rewriteStatusCode)) return false;
+    if (effect.corruptMutations !== undefined &&
+        (!Number.isInteger(effect.corruptMutations) || effect.corruptMutations < 1)) {
+        return false;
+    }
+    return isValidMutationList(effect.headerMutations) &&
+        isValidMutationList(effect.requestHeaderMutations) &&
+        isValidMutationList(effect.queryMutations);
+}
+
+/**
+ * Distribution parameters must be non-negative; scales and shapes that
+ * are divided by must be positive, and neither max nor p99 can be below
+ * its counterpart.
+ */
+function isValidLatencyParameters(effect: ChaosEffect): boolean {
+    const isNonNegative = (value: unknown) => value === undefined || (typeof value === 'number' && value >= 0);
+    const isPositive = (value: unknown) => value === undefined || (typeof value === 'number' && value > 0);
+
+    if (![effect.latencyMeanMs, effect.latencyStdDevMs, effect.latencySigma].every(isNonNegative)) return false;
+    if (![effect.latencyMedianMs, effect.latencyParetoAlpha, effect.latencyP50Ms, effect.latencyP99Ms].every(isPositive)) {
+        return false;
+    }
+    if (effect.latencyMinMs !== undefined && effect.latencyMaxMs !== undefined &&
+        effect.latencyMaxMs < effect.latencyMinMs) {
+        return false;
+    }
+    return effect.latencyP50Ms === undefined || effect.latencyP99Ms === undefined ||
+        effect.latencyP99Ms >= effect.latencyP50Ms;
+}
+
+/**
+ * Error fields are strings, null paths valid JSONPath, and field latencies
+ * non-negative numbers.
+ */
+function isValidGraphQLParameters(effect: ChaosEffect): boolean {
+    if (effect.graphqlErrorMessage !== undefined && typeof effect.graphqlErrorMessage !== 'string') return false;
+    if (effect.graphqlErrorCode !== undefined && typeof effect.graphqlErrorCode !== 'string') return false;
+    if (effect.graphqlNullPaths !== undefined &&
+        (!Array.isArray(effect.graphqlNullPaths) ||
+            !effect.graphqlNullPaths.every(path => typeof path === 'string' && isValidJsonPath(path)))) {
+        return false;
+    }
+    return effect.graphqlFieldLatencyMs === undefined ||
+        (typeof effect.graphqlFieldLatencyMs === 'object' && effect.graphqlFieldLatencyMs !== null &&
+            !Array.isArray(effect.graphqlFieldLatencyMs) &&
+            Object.values(effect.graphqlFieldLatencyMs).every(value => typeof value === 'number' && value >= 0));
+}
+
+/**
+ * Percentages are 0-100, counts and durations non-negative, and the close
+ * code either 1006 (no close frame) or one a close frame may carry.
+ */
+function isValidWebSocketParameters(effect: ChaosEffect): boolean {
+    const isNonNegative = (value: unknown) => value === undefined || (typeof value === 'number' && value >= 0);
+    const isPercent = (value: unknown) => value === undefined || (typeof value === 'number' && value >= 0 && value <= 100);
+
+    if (effect.wsRefuseStatus !== undefined && !isValidStatusCode(effect.wsRefuseStatus)) return false;
+    if (effect.wsDirection !== undefined && !VALID_WEBSOCKET_DIRECTIONS.includes(effect.wsDirection)) return false;
+    if (![effect.wsMessageDelayMs, effect.wsCloseAfterMs].every(isNonNegative)) return false;
+    if (![effect.wsDropPercent, effect.wsDuplicatePercent].every(isPercent)) return false;
+    if (effect.wsCloseAfterMessages !== undefined &&
+        (!Number.isInteger(effect.wsCloseAfterMessages) || effect.wsCloseAfterMessages < 1)) {
+        return false;
+    }
+    return effect.wsCloseCode === undefined ||
+        (Number.isInteger(effect.wsCloseCode) &&
+            (effect.wsCloseCode === ABNORMAL_CLOSURE || isSendableCloseCode(effect.wsCloseCode)));
+}
+
+/**
+ * Conditions need a known source and operator, a key, and a string value
+ * if they have one.
+ */
+function isValidMatcherList(matchers: MatchCondition[]): boolean {
+    return Array.isArray(matchers) && matchers.every(condition =>
+        typeof condition === 'object' && condition !== null &&
+        VALID_MATCH_SOURCES.includes(condition.source) &&
+        VALID_MATCH_OPERATORS.includes(condition.operator) &&
+        typeof condition.key === 'string' && condition.key !== '' &&
+        (condition.value === undefined || typeof condition.value === 'string'));
+}
+
+function isValidTrigger(trigger: RuleTrigger): boolean {
+    return typeof trigger === 'object' && trigger !== null &&
+        VALID_TRIGGER_MODES.includes(trigger.mode) &&
+        Number.isInteger(trigger.count) && trigger.count >= 1;
+}
+
+function isValidSchedule(schedule: RuleSchedule): boolean {
+    if (typeof schedule !== 'object' || schedule === null) return false;
+    const isPositive = (value: unknown) => typeof value === 'number' && value > 0;
+    const isJitter = (value: unknown) => value === undefined || (typeof value === 'number' && value >= 0);
+    return isPositive(schedule.downMs) && isPositive(schedule.upMs) &&
+        isJitter(schedule.downJitterMs) && isJitter(schedule.upJitterMs) &&
+        (schedule.startPhase === undefined || VALID_SCHEDULE_PHASES.includes(schedule.startPhase));
+}
+
+/**
+ * Routes need a unique name that is not one of the built-in upstreams, a
+ * valid target, and a path prefix starting with "/" if they have one.
+ */
+function isValidUpstreamList(routes: UpstreamRoute[]): boolean {
+    if (!Array.isArray(routes)) return false;
+    const names = new Set<string>();
+    for (const route of routes) {
+        if (typeof route !== 'object' || route === null) return false;
+        if (typeof route.name !== 'string' || route.name === '' || names.has(route.name)) return false;
+        if (route.name === DEFAULT_UPSTREAM || route.name === FORWARD_UPSTREAM) return false;
+        if (!isValidUpstreamTarget(route.targetUrl)) return false;
+        if (route.pathPrefix !== undefined && (typeof route.pathPrefix !== 'string' || !route.pathPrefix.startsWith('/'))) {
+            return false;
+        }
+        if (route.host !== undefined && (typeof route.host !== 'string' || route.host === '')) return false;
+        names.add(route.name);
+    }
+    return true;
+}
+
+function isValidPriority(priority: unknown): boolean {
+    return priority === undefined || (typeof priority === 'number' && Number.isFinite(priority));
+}
+
+/**
+ * Probabilities are optional percentages between 0 and 100.
+ */
+function isValidProbability(probability: unknown): boolean {
+    if (probability === undefined) return true;
+    return typeof probability === 'number' && Number.isFinite(probability) && probability >= 0 && probability <= 100;
+}
+
+function isValidStatusCode(status: unknown): boolean {
+    return typeof status === 'number' && Number.isInteger(status) && status >= 100 && status <= 599;
+}
+
+function isValidMutationList(mutations: HeaderMutation[] | undefined): boolean {
+    if (mutations === undefined) return true;
+    return Array.isArray(mutations) && mutations.every(mutation =>
+        typeof mutation === 'object' && mutation !== null &&
+        VALID_HEADER_OPERATIONS.includes(mutation.operation) &&
+        typeof mutation.name === 'string' && mutation.name !== '');
+}
+
 // ============================================================================
 // Configuration Endpoints
 // ============================================================================
@@ -35,14 +342,59 @@ apiRouter.get('/config', (_req: Request, res: Response) => {
 
 /**
  * PUT /api/config
- * Updates the proxy configuration.
+ * Updates the proxy configuration. Setting `seed` restarts the request sequence
+ * and the rule schedules;
+ * `upstreams` replaces the whole routing table.
  */
 apiRouter.put('/config', (req: Request, res: Response) => {
-    const { targetUrl, enabled } = req.body;
-    const updated = updateConfig({ targetUrl, enabled });
+    const { targetUrl, enabled, seed, upstreams } = req.body;
+
+    // Only apply fields present in the body so partial updates keep the rest
+    const updates: Partial<ProxyConfig> = {};
+    if (targetUrl !== undefined) updates.targetUrl = targetUrl;
+    if (enabled !== undefined) updates.enabled = enabled;
+
+    if (upstreams !== undefined) {
+        if (!isValidUpstreamList(upstreams)) {
+            res.status(400).json({
+                success: false,
+                error: 'upstreams must be a list of routes with unique names (other than "default" and "forward"), a valid targetUrl and paths starting with "/"',
+            });
+            return;
+        }
+        updates.upstreams = upstreams;
+    }
+
+    if ('seed' in req.body) {
+        // null clears the seed
+        if (seed !== null && !Number.isInteger(seed)) {
+            res.status(400).json({ success: false, error: 'seed must be an integer or null' });
+            return;
+        }
+        updates.seed = seed ?? undefined;
+    }
+
+    const updated = updateConfig(updates);
+    if ('seed' in updates) {
+        restartRuleSchedules();
+    }
     res.json({ success: true, data: updated });
 });
 
+/**
+ * GET /api/ca.pem
+ * Downloads the local root CA certificate used for HTTPS interception, to
+ * add to the trust store of a test environment.
+ */
+apiRouter.get('/ca.pem', (_req: Request, res: Response) => {
+    const certPem = getCaCertificatePem();
+    if (!certPem) {
+        res.status(503).json({ success: false, error: 'HTTPS interception is disabled: it needs FORWARD_PROXY=1 and a CA_DIR the server can write' });
+        return;
+    }
+    res.attachment('chaos-monkey-ca.pem').send(certPem);
+});
+
 // ============================================================================
 // Rules Endpoints
 // ============================================================================
@@ -55,6 +407,32 @@ apiRouter.get('/rules', (_req: Request, res: Response) => {
     res.json({ success: true, data: getRules() });
 });
 
+/**
+ * GET /api/rules/hits
+ * Returns the hit counter of every rule, keyed by rule ID.
+ */
+apiRouter.get('/rules/hits', (_req: Request, res: Response) => {
+    res.json({ success: true, data: getRuleHits() });
+});
+
+/**
+ * DELETE /api/rules/hits
+ * Resets the hit counters of all rules.
+ */
+apiRouter.delete('/rules/hits', (_req: Request, res: Response) => {
+    resetRuleHits();
+    res.json({ success: true });
+});
+
+/**
+ * GET /api/rules/phases
+ * Returns the current phase of every scheduled (flapping) rule.
+ * Phase changes are also pushed over /ws as 'rule-phase' messages.
+ */
+apiRouter.get('/rules/phases', (_req: Request, res: Response) => {
+    res.json({ success: true, data: getRulePhases() });
+});
+
 /**
  * GET /api/rules/:id
  * Returns a specific chaos rule.
@@ -73,47 +451,168 @@ apiRouter.get('/rules/:id', (req: Request, res: Response) => {
  * Creates a new chaos rule.
  */
 apiRouter.post('/rules', (req: Request, res: Response) => {
-    const ruleData = req.body as Partial<ChaosRule>;
+    const ruleData = req.body as RuleInput;
+    const effects = resolveEffects(ruleData);
 
     // Validate required fields
-    if (!ruleData.name || !ruleData.pathPattern || !ruleData.chaosType) {
+    if (!ruleData.name || !ruleData.pathPattern || !effects) {
         res.status(400).json({
             success: false,
-            error: 'Missing required fields: name, pathPattern, chaosType'
+            error: 'Missing required fields: name, pathPattern, effects'
         });
         return;
     }
 
+    if (!isValidEffectList(effects)) {
+        res.status(400).json({ success: false, error: 'Invalid effects: each effect needs a known type and valid parameters' });
+        return;
+    }
+
+    if (ruleData.hostPattern !== undefined && typeof ruleData.hostPattern !== 'string') {
+        res.status(400).json({ success: false, error: 'hostPattern must be a string' });
+        return;
+    }
+
+    if (ruleData.matchers !== undefined && !isValidMatcherList(ruleData.matchers)) {
+        res.status(400).json({ success: false, error: 'Invalid matchers: each needs a known source and operator, a key, and a string value' });
+        return;
+    }
+
+    if (ruleData.trigger !== undefined && !isValidTrigger(ruleData.trigger)) {
+        res.status(400).json({ success: false, error: 'Invalid trigger: needs a known mode and an integer count of at least 1' });
+        return;
+    }
+
+    if (ruleData.schedule !== undefined && !isValidSchedule(ruleData.schedule)) {
+        res.status(400).json({ success: false, error: 'Invalid schedule: downMs and upMs must be positive' });
+        return;
+    }
+
+    if (!isValidPriority(ruleData.priority)) {
+        res.status(400).json({ success: false, error: 'priority must be a number' });
+        return;
+    }
+
+    if (!isValidProbability(ruleData.probability)) {
+        res.status(400).json({ success: false, error: 'probability must be a number from 0 to 100' });
+        return;
+    }
+
     // Generate ID if not provided
-    const rule: ChaosRule = {
+    const rule: NewChaosRule = {
         id: ruleData.id || `rule-${Date.now()}`,
         name: ruleData.name,
         enabled: ruleData.enabled ?? true,
+        priority: ruleData.priority,
         pathPattern: ruleData.pathPattern,
+        hostPattern: ruleData.hostPattern,
         methods: ruleData.methods || ['*'],
-        chaosType: ruleData.chaosType,
-        latencyMs: ruleData.latencyMs,
-        latencyMinMs: ruleData.latencyMinMs,
-        latencyMaxMs: ruleData.latencyMaxMs,
-        errorStatusCode: ruleData.errorStatusCode,
-        errorMessage: ruleData.errorMessage,
-        failRate: ruleData.failRate,
+        matchers: ruleData.matchers,
+        trigger: ruleData.trigger,
+        probability: ruleData.probability,
+        schedule: ruleData.schedule,
+        upstream: ruleData.upstream,
+        effects,
     };
 
     const created = createRule(rule);
+    syncRuleSchedules();
     res.status(201).json({ success: true, data: created });
 });
 
+/**
+ * PUT /api/rules/order
+ * Reorders all rules atomically. Body: { ids: string[] } listing every
+ * rule ID exactly once, in the desired evaluation order.
+ * Registered before /rules/:id so "order" is not treated as an ID.
+ */
+apiRouter.put('/rules/order', (req: Request, res: Response) => {
+    const { ids } = req.body as { ids?: unknown };
+    if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+        res.status(400).json({ success: false, error: 'Body must contain ids: string[]' });
+        return;
+    }
+
+    const reordered = reorderRules(ids);
+    if (!reordered) {
+        res.status(400).json({ success: false, error: 'ids must list every rule ID exactly once' });
+        return;
+    }
+    res.json({ success: true, data: reordered });
+});
+
 /**
  * PUT /api/rules/:id
  * Updates an existing chaos rule.
  */
 apiRouter.put('/rules/:id', (req: Request, res: Response) => {
-    const updated = updateRule(req.params.id, req.body);
+    const { chaosType: _legacyType, ...updates } = req.body as RuleInput;
+    const effects = resolveEffects(req.body);
+
+    if (effects) {
+        if (!isValidEffectList(effects)) {
+            res.status(400).json({ success: false, error: 'Invalid effects: each effect needs a known type and valid parameters' });
+            return;
+        }
+        updates.effects = effects;
+    }
+
+    // null removes the host pattern
+    if ((updates.hostPattern as string | null) === null) {
+        updates.hostPattern = undefined;
+    } else if (updates.hostPattern !== undefined && typeof updates.hostPattern !== 'string') {
+        res.status(400).json({ success: false, error: 'hostPattern must be a string' });
+        return;
+    }
+
+    // null removes the match conditions
+    if ((updates.matchers as MatchCondition[] | null) === null) {
+        updates.matchers = undefined;
+    } else if (updates.matchers !== undefined && !isValidMatcherList(updates.matchers)) {
+        res.status(400).json({ success: false, error: 'Invalid matchers: each needs a known source and operator, a key, and a string value' });
+        return;
+    }
+
+    // null removes the trigger, so the rule fires on every hit again
+    if ((updates.trigger as RuleTrigger | null) === null) {
+        updates.trigger = undefined;
+    } else if (updates.trigger !== undefined && !isValidTrigger(updates.trigger)) {
+        res.status(400).json({ success: false, error: 'Invalid trigger: needs a known mode and an integer count of at least 1' });
+        return;
+    }
+
+    // null removes the upstream scope
+    if ((updates.upstream as string | null) === null) {
+        updates.upstream = undefined;
+    }
+
+    // null removes the schedule
+    if ((updates.schedule as RuleSchedule | null) === null) {
+        updates.schedule = undefined;
+    } else if (updates.schedule !== undefined && !isValidSchedule(updates.schedule)) {
+        res.status(400).json({ success: false, error: 'Invalid schedule: downMs and upMs must be positive' });
+        return;
+    }
+
+    if (!isValidPriority(updates.priority)) {
+        res.status(400).json({ success: false, error: 'priority must be a number' });
+        return;
+    }
+
+    // null removes the probability
+    if ((updates.probability as number | null) === null) {
+        updates.probability = undefined;
+    } else if (!isValidProbability(updates.probability)) {
+        res.status(400).json({ success: false, error: 'probability must be a number from 0 to 100' });
+        return;
+    }
+
+    const updated = updateRule(req.params.id, updates);
     if (!updated) {
         res.status(404).json({ success: false, error: 'Rule not found' });
         return;
     }
+    syncRuleSchedules();
     res.json({ success: true, data: updated });
 });
 
@@ -127,6 +626,19 @@ apiRouter.delete('/rules/:id', (req: Request, res: Response) => {
         res.status(404).json({ success: false, error: 'Rule not found' });
         return;
     }
+    syncRuleSchedules();
+    res.json({ success: true });
+});
+
+/**
+ * DELETE /api/rules/:id/hits
+ * Resets the hit counter of a single rule.
+ */
+apiRouter.delete('/rules/:id/hits', (req: Request, res: Response) => {
+    if (!resetRuleHits(req.params.id)) {
+        res.status(404).json({ success: false, error: 'Rule not found' });
+        return;
+    }
     res.json({ success: true });
 });
 
@@ -0,0 +1,199 @@
+/**
+ * Certificate Authority
+ *
+ * A local root CA for HTTPS interception. The CA is generated on first start
+ * and kept in CA_DIR (default ./.chaos-ca), so a test environment only has
+ * to trust it once. Leaf certificates for intercepted hosts are minted on
+ * the fly, signed by the CA, and cached for the life of the process.
+ */
+
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { isIP } from 'net';
+import { join, resolve } from 'path';
+import { createSecureContext, SecureContext } from 'tls';
+import forge from 'node-forge';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CA_DIR = resolve(process.env.CA_DIR || '.chaos-ca');
+const CA_CERT_FILE = join(CA_DIR, 'ca.pem');
+const CA_KEY_FILE = join(CA_DIR, 'ca-key.pem');
+
+const CA_NAME = 'API Chaos Monkey Local CA';
+const CA_VALIDITY_YEARS = 10;
+const LEAF_VALIDITY_DAYS = 365;
+
+// Certificates start a day early so clients with a skewed clock accept them
+const CLOCK_SKEW_MS = 24 * 60 * 60 * 1000;
+
+// Oldest leaf contexts are evicted beyond this many hosts
+const MAX_CACHED_HOSTS = 500;
+
+// ============================================================================
+// State
+// ============================================================================
+
+interface CertificateAuthority {
+    cert: forge.pki.Certificate;
+    certPem: string;
+    key: forge.pki.rsa.PrivateKey;
+}
+
+interface KeyPair {
+    publicKey: forge.pki.rsa.PublicKey;
+    privateKeyPem: string;
+}
+
+let authority: CertificateAuthority | null = null;
+
+// One key pair serves every leaf certificate
+let leafKeys: KeyPair | null = null;
+
+const secureContexts = new Map<string, SecureContext>();
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+/**
+ * Load the CA from CA_DIR, or generate and store it there on first start.
+ * Throws if the directory can't be read or written.
+ */
+export function initCertificateAuthority(): void {
+    if (existsSync(CA_CERT_FILE) && existsSync(CA_KEY_FILE)) {
+        const certPem = readFileSync(CA_CERT_FILE, 'utf8');
+        authority = {
+            cert: forge.pki.certificateFromPem(certPem),
+            certPem,
+            key: forge.pki.privateKeyFromPem(readFileSync(CA_KEY_FILE, 'utf8')),
+        };
+    } else {
+        authority = generateAuthority();
+        mkdirSync(CA_DIR, { recursive: true });
+        writeFileSync(CA_CERT_FILE, authority.certPem);
+        writeFileSync(CA_KEY_FILE, forge.pki.privateKeyToPem(authority.key), { mode: 0o600 });
+    }
+
+    leafKeys = generateKeyPair();
+    secureContexts.clear();
+}
+
+/**
+ * The CA certificate in PEM format, or null if the CA isn't available.
+ */
+export function getCaCertificatePem(): string | null {
+    return authority?.certPem ?? null;
+}
+
+/**
+ * Where the CA is stored, for the startup banner.
+ */
+export function getCaDirectory(): string {
+    return CA_DIR;
+}
+
+/**
+ * TLS context presenting a CA-signed certificate for a hostname or IP
+ * address. Throws if the CA isn't available.
+ */
+export function getSecureContext(hostname: string): SecureContext {
+    const host = hostname.toLowerCase();
+    const cached = secureContexts.get(host);
+    if (cached) return cached;
+
+    if (!authority || !leafKeys) {
+        throw new Error('Certificate authority is not initialized');
+    }
+
+    const cert = createLeafCertificate(host, authority, leafKeys);
+    const context = createSecureContext({
+        key: leafKeys.privateKeyPem,
+        cert: forge.pki.certificateToPem(cert) + authority.certPem,
+    });
+
+    if (secureContexts.size >= MAX_CACHED_HOSTS) {
+        const oldest = secureContexts.keys().next().value;
+        if (oldest !== undefined) secureContexts.delete(oldest);
+    }
+    secureContexts.set(host, context);
+    return context;
+}
+
+// ============================================================================
+// Certificate Generation
+// ============================================================================
+
+function generateKeyPair(): KeyPair {
+    // Node's native key generation is far faster than forge's
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+    });
+    return {
+        publicKey: forge.pki.publicKeyFromPem(publicKey),
+        privateKeyPem: privateKey,
+    };
+}
+
+function generateAuthority(): CertificateAuthority {
+    const keys = generateKeyPair();
+    const key = forge.pki.privateKeyFromPem(keys.privateKeyPem);
+    const subject = [
+        { name: 'commonName', value: CA_NAME },
+        { name: 'organizationName', value: 'API Chaos Monkey' },
+    ];
+
+    const notAfter = new Date();
+    notAfter.setFullYear(notAfter.getFullYear() + CA_VALIDITY_YEARS);
+
+    const cert = newCertificate(keys.publicKey, notAfter);
+    cert.setSubject(subject);
+    cert.setIssuer(subject);
+    cert.setExtensions([
+        { name: 'basicConstraints', cA: true, critical: true },
+        { name: 'keyUsage', keyCertSign: true, cRLSign: true, critical: true },
+        { name: 'subjectKeyIdentifier' },
+    ]);
+    cert.sign(key, forge.md.sha256.create());
+
+    return { cert, certPem: forge.pki.certificateToPem(cert), key };
+}
+
+function createLeafCertificate(host: string, ca: CertificateAuthority, keys: KeyPair): forge.pki.Certificate {
+    const notAfter = new Date(Date.now() + LEAF_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+
+    const cert = newCertificate(keys.publicKey, notAfter);
+    cert.setSubject([{ name: 'commonName', value: host }]);
+    cert.setIssuer(ca.cert.subject.attributes);
+    cert.setExtensions([
+        { name: 'basicConstraints', cA: false },
+        { name: 'keyUsage', digitalSignature: true, keyEncipherment: true, critical: true },
+        { name: 'extKeyUsage', serverAuth: true },
+        // Clients check the host against the SAN, not the common name
+        { name: 'subjectAltName', altNames: [isIP(host) ? { type: 7, ip: host } : { type: 2, value: host }] },
+        { name: 'subjectKeyIdentifier' },
+        { name: 'authorityKeyIdentifier', keyIdentifier: ca.cert.generateSubjectKeyIdentifier().getBytes() },
+    ]);
+    cert.sign(ca.key, forge.md.sha256.create());
+
+    return cert;
+}
+
+function newCertificate(publicKey: forge.pki.rsa.PublicKey, notAfter: Date): forge.pki.Certificate {
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = publicKey;
+
+    // A random serial, so re-minted certificates never collide. The top bits
+    // keep it positive and its DER encoding minimal.
+    const serial = randomBytes(16);
+    serial[0] = (serial[0] & 0x7f) | 0x40;
+    cert.serialNumber = serial.toString('hex');
+
+    cert.validity.notBefore = new Date(Date.now() - CLOCK_SKEW_MS);
+    cert.validity.notAfter = notAfter;
+    return cert;
+}
@@ -2,92 +2,133 @@
  * Chaos Engine - Pipeline-Based Implementation
  * 
  * Implements chaos injection as an explicit ordered pipeline:
- * 1. Match rules (first match wins)
- * 2. Drop rate / Token bucket check
+ * 1. Match rules (priority order, first match wins; scheduled rules only while down)
+ * 2. Drop rate / Rate limiter (token bucket or window) / Per-client sequence
  * 3. Timeout (hang then close)
- * 4. Forced error (return errorStatusCode)
- * 5. [Proxy to upstream - handled by proxy.ts]
- * 6. Latency delay (before sending response)
- * 7. Corrupt JSON (only if upstream returned JSON)
+ * 4. Forced error (return errorStatusCode, or a GraphQL errors response)
+ * 5. [Proxy to upstream - handled by proxy.ts, after any 'before-upstream' latency,
+ *    once a 'concurrency' slot is free, and with the outgoing request mutated
+ *    by any 'mutate-request' effects]
+ * 6. Latency delay ('before-headers' before the status line, 'before-body' after the headers)
+ * 7. Corrupt JSON / GraphQL partial data (only if upstream returned JSON)
+ * 8. Response status rewrite / headers (remove / set / rewrite - applied by proxy.ts)
+ * 9. Throttle / Reset / Stream (trickle, cut off or chop up the body - handled by proxy.ts)
+ * 
+ * Proxied WebSocket upgrades run steps 1-5, then the matched rule's
+ * 'websocket' effects (see getWebSocketChaos, applied by ws-proxy.ts).
  * 
  * Each step produces an action string added to actionsApplied array.
  */
 
-import { ChaosRule, ChaosType, HttpMethod } from './types.js';
-import { getRules } from './state.js';
+import {
+    ChaosRule,
+    ChaosEffect,
+    ChaosType,
+    CorruptionStrategy,
+    HeaderMutation,
+    HttpMethod,
+    LatencyPhase,
+    LimiterAlgorithm,
+    MatchCondition,
+    QueryMutation,
+    RuleTrigger,
+    SequenceStep,
+    WebSocketDirection,
+    WeightedStatus,
+} from './types.js';
+import { getRules, recordRuleHit } from './state.js';
+import { RandomSource } from './random.js';
+import { renderErrorResponse } from './error-templates.js';
+import { LimiterDecision, consumeRateLimit } from './rate-limiter.js';
+import { acquireSlot } from './concurrency.js';
+import { getRulePhase } from './schedule.js';
+import { latencyDistributionOf, sampleLatency } from './latency.js';
+import { GraphQLOperation, readGraphQLRequest } from './graphql.js';
+import {
+    JsonLocation,
+    childLocations,
+    descendantLocations,
+    isJsonObject,
+    rootLocation,
+    selectJsonPath,
+} from './json-path.js';
 
 // ============================================================================
-// Token Bucket State
+// Per-Client Sequence State
 // ============================================================================
 
 /**
- * Token bucket state per key (method + ruleId).
- * Tokens refill at `rps` rate up to `burst` capacity.
+ * Progress of one client through a scripted sequence.
  */
-interface TokenBucket {
-    tokens: number;
-    lastRefill: number; // Unix timestamp in ms
-    rps: number;
-    burst: number;
+interface ClientSequence {
+    position: number;  // Index of the next step to play
+    lastSeen: number;  // Unix timestamp in ms
 }
 
 /**
- * In-memory storage for token buckets, keyed by "method:ruleId".
+ * In-memory storage for client sequences, keyed by "ruleId:effectIndex:clientKey".
  */
-const tokenBuckets = new Map<string, TokenBucket>();
+const clientSequences = new Map<string, ClientSequence>();
+
+const DEFAULT_SEQUENCE_IDLE_MS = 60_000;
+const SEQUENCE_SWEEP_INTERVAL_MS = 10_000;
+let lastSequenceSweep = 0;
 
 /**
- * Get or create a token bucket for a given key.
+ * Claim the next step position for a client. A client idle for longer
+ * than `idleMs` starts over from the first step.
  */
-function getOrCreateBucket(key: string, rps: number, burst: number): TokenBucket {
-    let bucket = tokenBuckets.get(key);
+function advanceClientSequence(key: string, idleMs: number): number {
+    const now = Date.now();
+    sweepIdleSequences(now, idleMs);
 
-    if (!bucket) {
-        bucket = {
-            tokens: burst, // Start with full bucket
-            lastRefill: Date.now(),
-            rps,
-            burst,
-        };
-        tokenBuckets.set(key, bucket);
+    let sequence = clientSequences.get(key);
+    if (!sequence || now - sequence.lastSeen > idleMs) {
+        sequence = { position: 0, lastSeen: now };
+        clientSequences.set(key, sequence);
     }
 
-    // Update config if changed (allows dynamic rule updates)
-    bucket.rps = rps;
-    bucket.burst = burst;
-
-    return bucket;
+    const position = sequence.position;
+    sequence.position += 1;
+    sequence.lastSeen = now;
+    return position;
 }
 
 /**
- * Try to consume a token from the bucket.
- * Returns { allowed: true } if token consumed, or { allowed: false, retryAfter: seconds }.
+ * Drop idle clients so the map doesn't grow without bound. Runs at most
+ * once per sweep interval.
  */
-function tryConsumeToken(bucket: TokenBucket): { allowed: true } | { allowed: false; retryAfter: number } {
-    const now = Date.now();
-    const elapsed = (now - bucket.lastRefill) / 1000; // seconds
-
-    // Refill tokens based on elapsed time
-    const tokensToAdd = elapsed * bucket.rps;
-    bucket.tokens = Math.min(bucket.burst, bucket.tokens + tokensToAdd);
-    bucket.lastRefill = now;
+function sweepIdleSequences(now: number, idleMs: number): void {
+    if (now - lastSequenceSweep < SEQUENCE_SWEEP_INTERVAL_MS) return;
+    lastSequenceSweep = now;
 
-    if (bucket.tokens >= 1) {
-        bucket.tokens -= 1;
-        return { allowed: true };
+    for (const [key, sequence] of clientSequences) {
+        if (now - sequence.lastSeen > Math.max(idleMs, DEFAULT_SEQUENCE_IDLE_MS)) {
+            clientSequences.delete(key);
+        }
     }
-
-    // Calculate how long until a token is available
-    const tokensNeeded = 1 - bucket.tokens;
-    const retryAfter = Math.ceil(tokensNeeded / bucket.rps);
-
-    return { allowed: false, retryAfter: Math.max(1, retryAfter) };
 }
 
 // ============================================================================
 // Types
 // ============================================================================
 
+/**
+ * The parts of an incoming request that rules can match on.
+ */
+export interface ChaosRequest {
+    path: string;
+    method: string;
+    headers: Record<string, string | string[] | undefined>;
+    query: URLSearchParams;
+    rawBody?: Buffer;
+    clientIp: string;
+    host: string | undefined;  // Hostname the request is addressed to (forward-proxy URI host, else Host header)
+    upstream: string;          // Name of the route the request goes to ('default' for the config's targetUrl)
+    requestId: string;         // Log id of the request, for error template placeholders
+    random: RandomSource;      // Source for every random decision made for this request
+}
+
 export interface PreProxyResult {
     /** Should we skip the upstream request entirely? */
     skipUpstream: boolean;
@@ -95,8 +136,8 @@ export interface PreProxyResult {
     /** If skipping, what response to send? (null = timeout/hang) */
     immediateResponse: {
         statusCode: number;
-        body: string;
-        contentType: string;
+        body: string;          // Empty string = no body
+        contentType?: string;  // Unset = no Content-Type header
         headers?: Record<string, string>;
     } | null;
 
@@ -105,6 +146,18 @@ export interface PreProxyResult {
         durationMs: number;
     };
 
+    /** 'before-upstream' latency to wait before calling upstream (or sending the immediate response) */
+    delayMs?: number;
+
+    /** Changes to make to the outgoing request, if any 'mutate-request' effect fired */
+    requestMutation?: RequestMutation;
+
+    /** Headers to add to the response sent to the client (e.g. rate limit headers) */
+    responseHeaders?: Record<string, string>;
+
+    /** 'concurrency' effects whose slots the proxy must claim before calling upstream */
+    concurrencyLimits?: ConcurrencyLimit[];
+
     /** Actions applied so far */
     actionsApplied: string[];
 
@@ -112,26 +165,113 @@ export interface PreProxyResult {
     matchedRule: ChaosRule | null;
 }
 
+/**
+ * Changes to make to the outgoing request before it is forwarded upstream.
+ */
+export interface RequestMutation {
+    headerMutations: HeaderMutation[];
+    queryMutations: QueryMutation[];
+    bodyBytes: number | null;  // Truncate the body to this many bytes (the smallest limit wins)
+    method: string | null;     // Method to forward instead of the original (the last effect wins)
+}
+
+/**
+ * A 'concurrency' effect to enforce, with the key of its slot pool.
+ */
+export interface ConcurrencyLimit {
+    key: string;               // "ruleId:effectIndex"
+    effect: ChaosEffect;
+}
+
+/**
+ * Outcome of claiming the slots of every concurrency limit of a request.
+ */
+export interface ConcurrencyResult {
+    /** Frees every claimed slot (safe to call more than once) */
+    release: () => void;
+
+    /** Total time spent queued for slots */
+    queueWaitMs: number;
+
+    /** The 503 to send when a slot couldn't be claimed, null otherwise */
+    rejection: PreProxyResult['immediateResponse'];
+}
+
 /**
  * Result of applying post-proxy chaos (after upstream response).
  */
 export interface PostProxyResult {
-    /** Delay to apply before sending response to client */
-    delayMs: number;
+    /** Delay to apply before sending the status and headers (time to first byte) */
+    headersDelayMs: number;
+
+    /** Delay to apply between sending the headers and the body */
+    bodyDelayMs: number;
+
+    /** Corrupt effects to apply to the JSON body, in order (empty = no corruption) */
+    corruptEffects: ChaosEffect[];
+
+    /** GraphQL partial effects to apply to the JSON body after corruption, in order */
+    graphqlPartialEffects: ChaosEffect[];
 
-    /** Should we corrupt the response body? */
-    corruptResponse: boolean;
+    /** If throttled, the rate at which to trickle the body to the client */
+    throttle: ThrottleConfig | null;
+
+    /** If reset chaos, the fraction (0-1) of the body to send before destroying the socket */
+    resetFraction: number | null;
+
+    /** If stream chaos, how to delay, drop or cut off the units of a streamed body */
+    stream: StreamChaosConfig | null;
+
+    /** Status to send instead of the upstream status (null = unchanged) */
+    statusCode: number | null;
+
+    /** Response header changes to apply, in order */
+    headerMutations: HeaderMutation[];
 
     /** Actions applied in post phase */
     actionsApplied: string[];
 }
 
+/**
+ * Bandwidth limit for sending the response body.
+ */
+export interface ThrottleConfig {
+    bytesPerSecond: number;
+    chunkSize: number;
+}
+
+/**
+ * Chaos applied while streaming a response body. A unit is one SSE event
+ * for text/event-stream responses and one upstream chunk otherwise.
+ */
+export interface StreamChaosConfig {
+    chunkDelayMs: number;          // Delay before each unit after the first
+    dropPercent: number;           // Percentage of SSE events dropped (0 = none)
+    cutAfterEvents: number | null; // Destroy the socket after this many units (null = never)
+}
+
+/**
+ * Chaos applied to a proxied WebSocket connection.
+ */
+export interface WebSocketChaosConfig {
+    /** Response to refuse the upgrade with (null = connect) */
+    refusal: PreProxyResult['immediateResponse'];
+    messageDelayMs: number;
+    dropPercent: number;
+    duplicatePercent: number;
+    direction: WebSocketDirection;
+    closeAfterMessages: number | null;
+    closeAfterMs: number | null;
+    closeCode: number;             // 1006 = destroy the socket without a close frame
+}
+
 /**
  * Corrupted response result.
  */
 export interface CorruptionResult {
     body: string;
-    action: string;
+    actions: string[];         // One per mutation, including skipped ones
+    corrupted: boolean;        // Whether the body was actually changed
 }
 
 // ============================================================================
@@ -140,15 +280,20 @@ export interface CorruptionResult {
 
 /**
  * Find the first enabled rule matching the request.
- * Rules are checked in creation order (first match wins).
+ * Rules are checked in priority order (first match wins).
  */
-export function findMatchingRule(path: string, method: string): ChaosRule | null {
+export function findMatchingRule(request: ChaosRequest): ChaosRule | null {
     const rules = getRules();
+    const body = lazyJsonBody(request.rawBody);
 
     for (const rule of rules) {
         if (!rule.enabled) continue;
-        if (!matchesMethod(rule.methods, method)) continue;
-        if (!matchesPath(rule.pathPattern, path)) continue;
+        if (getRulePhase(rule.id)?.phase === 'up') continue; // Healthy phase of a flapping outage
+        if (rule.upstream !== undefined && rule.upstream !== request.upstream) continue;
+        if (!matchesMethod(rule.methods, request.method)) continue;
+        if (!matchesPath(rule.pathPattern, request.path)) continue;
+        if (rule.hostPattern !== undefined && !matchesHostPattern(rule.hostPattern, request.host)) continue;
+        if (!matchesConditions(rule.matchers, request, body)) continue;
         return rule;
     }
 
@@ -168,6 +313,127 @@ function matchesPath(pattern: string, path: string): boolean {
     }
 }
 
+function matchesHostPattern(pattern: string, host: string | undefined): boolean {
+    if (host === undefined) return false;
+    try {
+        return new RegExp(pattern, 'i').test(host);
+    } catch {
+        return host.includes(pattern.toLowerCase());
+    }
+}
+
+function matchesConditions(
+    conditions: MatchCondition[] | undefined,
+    request: ChaosRequest,
+    body: () => unknown
+): boolean {
+    if (!conditions) return true;
+    return conditions.every(condition => matchesCondition(condition, readConditionValue(condition, request, body)));
+}
+
+function matchesCondition(condition: MatchCondition, value: string | string[] | undefined): boolean {
+    // A list of values (the top-level fields of a GraphQL operation) matches if any of them does
+    if (Array.isArray(value)) {
+        return value.some(item => matchesCondition(condition, item));
+    }
+
+    switch (condition.operator) {
+        case 'exists':
+            return value !== undefined;
+        case 'not-exists':
+            return value === undefined;
+        case 'equals':
+            return value !== undefined && value === condition.value;
+        case 'regex':
+            if (value === undefined) return false;
+            try {
+                return new RegExp(condition.value ?? '').test(value);
+            } catch {
+                return false;
+            }
+        default:
+            return false;
+    }
+}
+
+/**
+ * Read the value a condition refers to, as a string (a list for the
+ * top-level fields of a GraphQL operation). Returns undefined when the
+ * header, parameter, body field or GraphQL part is absent.
+ */
+function readConditionValue(
+    condition: MatchCondition,
+    request: ChaosRequest,
+    body: () => unknown
+): string | string[] | undefined {
+    if (condition.source === 'graphql') {
+        const operation = graphqlOperationOf(request, body);
+        switch (condition.key) {
+            case 'operationName':
+                return operation?.operationName;
+            case 'operationType':
+                return operation?.operationType;
+            case 'field':
+                return operation?.fields.length ? operation.fields : undefined;
+            default:
+                return undefined;
+        }
+    }
+
+    if (condition.source === 'header') {
+        const value = request.headers[condition.key.toLowerCase()];
+        return Array.isArray(value) ? value.join(', ') : value;
+    }
+
+    if (condition.source === 'query') {
+        return request.query.get(condition.key) ?? undefined;
+    }
+
+    let current = body();
+    for (const segment of condition.key.split('.')) {
+        if (typeof current !== 'object' || current === null) return undefined;
+        current = (current as Record<string, unknown>)[segment];
+    }
+    if (current === undefined) return undefined;
+    return typeof current === 'string' ? current : JSON.stringify(current);
+}
+
+/**
+ * Parse the request body as JSON on first use. Non-JSON bodies read as undefined.
+ */
+function lazyJsonBody(rawBody: Buffer | undefined): () => unknown {
+    let parsed: unknown;
+    let done = false;
+
+    return () => {
+        if (!done) {
+            done = true;
+            try {
+                parsed = rawBody ? JSON.parse(rawBody.toString('utf-8')) : undefined;
+            } catch {
+                parsed = undefined;
+            }
+        }
+        return parsed;
+    };
+}
+
+const graphqlOperations = new WeakMap<ChaosRequest, GraphQLOperation | null>();
+
+/**
+ * The GraphQL operation a request carries (JSON body, or query string of a
+ * GET), parsed on first use. Null for requests that aren't GraphQL.
+ */
+function graphqlOperationOf(
+    request: ChaosRequest,
+    body: () => unknown = lazyJsonBody(request.rawBody)
+): GraphQLOperation | null {
+    if (!graphqlOperations.has(request)) {
+        graphqlOperations.set(request, readGraphQLRequest(body(), request.query));
+    }
+    return graphqlOperations.get(request) ?? null;
+}
+
 // ============================================================================
 // Pre-Proxy Pipeline (Steps 1-4)
 // ============================================================================
@@ -181,13 +447,27 @@ function matchesPath(pattern: string, path: string): boolean {
  * 3. Timeout
  * 4. Forced error
  * 
+ * Latency effects in the 'before-upstream' phase and 'graphql-latency'
+ * effects also run here; their delays add up and are returned for the
+ * proxy to wait out first.
+ * 'mutate-request' effects are merged into a single request mutation
+ * that the proxy applies before forwarding.
+ * 
+ * Each match increments the rule's hit counter, which drives its
+ * count-based `trigger`. The rule's `probability` is then rolled once; each effect's own
+ * `probability` is rolled in the stage that applies it.
+ * 
+ * Pre-proxy effects of the matched rule run in list order. Gating effects
+ * (rate-limit, token-bucket) let the request continue to the next effect
+ * when they pass; the first effect that short-circuits the request wins.
+ * 
  * @returns Result indicating whether to skip upstream and what response to send
  */
-export function runPreProxyPipeline(path: string, method: string): PreProxyResult {
+export function runPreProxyPipeline(request: ChaosRequest): PreProxyResult {
     const actions: string[] = [];
 
     // Step 1: Match rules
-    const rule = findMatchingRule(path, method);
+    const rule = findMatchingRule(request);
 
     if (!rule) {
         actions.push('match:no_rule');
@@ -201,86 +481,280 @@ export function runPreProxyPipeline(path: string, method: string): PreProxyResul
 
     actions.push(`match:${rule.name}`);
 
+    const schedulePhase = getRulePhase(rule.id);
+    if (schedulePhase) {
+        const remainingSeconds = Math.max(0, Math.ceil((Date.parse(schedulePhase.until) - Date.now()) / 1000));
+        actions.push(`schedule:down(remaining=${remainingSeconds}s)`);
+    }
+
+    // Count-based trigger: every match counts, whether or not the rule fires
+    const hit = recordRuleHit(rule.id);
+    if (!checkTrigger(rule.trigger, hit, actions)) {
+        return {
+            skipUpstream: false,
+            immediateResponse: null,
+            actionsApplied: actions,
+            matchedRule: null,
+        };
+    }
+
+    // Rule-level probability: a skipped roll disables every effect of the rule
+    if (!rollProbability(rule.probability, request.random, actions)) {
+        return {
+            skipUpstream: false,
+            immediateResponse: null,
+            actionsApplied: actions,
+            matchedRule: null,
+        };
+    }
+
+    let delayMs = 0;
+    let requestMutation: RequestMutation | undefined;
+    const responseHeaders: Record<string, string> = {};
+    const concurrencyLimits: ConcurrencyLimit[] = [];
+
+    for (const [index, effect] of rule.effects.entries()) {
+        if (!isPreProxyEffect(effect)) continue;
+        if (!rollProbability(effect.probability, request.random, actions, effect.type)) continue;
+
+        if (effect.type === 'latency') {
+            delayMs += rollLatency(effect, request.random, actions);
+            continue;
+        }
+
+        if (effect.type === 'graphql-latency') {
+            delayMs += graphqlFieldLatency(effect, request, actions);
+            continue;
+        }
+
+        if (effect.type === 'mutate-request') {
+            requestMutation = mergeRequestMutation(requestMutation, effect);
+            continue;
+        }
+
+        // Slots are held while the upstream call is in flight, so the proxy claims them
+        if (effect.type === 'concurrency') {
+            concurrencyLimits.push({ key: `${rule.id}:${index}`, effect });
+            continue;
+        }
+
+        const outcome = applyPreProxyEffect(rule, effect, index, request, actions, responseHeaders);
+        if (outcome) {
+            if (outcome.immediateResponse) {
+                outcome.immediateResponse.headers = { ...responseHeaders, ...outcome.immediateResponse.headers };
+            }
+            return { ...outcome, delayMs, actionsApplied: actions, matchedRule: rule };
+        }
+    }
+
+    // Remaining effects (later latency phases, corrupt, headers, throttle, reset) are handled post-proxy
+    return {
+        skipUpstream: false,
+        immediateResponse: null,
+        delayMs,
+        requestMutation,
+        responseHeaders,
+        concurrencyLimits,
+        actionsApplied: actions,
+        matchedRule: rule,
+    };
+}
+
+const POST_PROXY_EFFECT_TYPES: ChaosType[] = [
+    'latency', 'corrupt', 'throttle', 'reset', 'headers', 'status-rewrite', 'stream', 'websocket', 'graphql-partial',
+];
+
+function isPreProxyEffect(effect: ChaosEffect): boolean {
+    if (effect.type === 'latency') return latencyPhaseOf(effect) === 'before-upstream';
+    return !POST_PROXY_EFFECT_TYPES.includes(effect.type);
+}
+
+function latencyPhaseOf(effect: ChaosEffect): LatencyPhase {
+    return effect.latencyPhase ?? 'before-headers';
+}
+
+/**
+ * Pick the delay of a latency effect (fixed, uniform, or drawn from a
+ * distribution) and record it along with its phase. Distributions other
+ * than fixed and uniform are named in the action.
+ */
+function rollLatency(effect: ChaosEffect, random: RandomSource, actions: string[]): number {
+    const delayMs = sampleLatency(effect, random);
+    const distribution = latencyDistributionOf(effect);
+    const details = distribution === 'fixed' || distribution === 'uniform' ? '' : `,distribution=${distribution}`;
+    actions.push(`latency:${delayMs}ms(phase=${latencyPhaseOf(effect)}${details})`);
+    return delayMs;
+}
+
+/**
+ * The delay of a 'graphql-latency' effect: the configured latencies of the
+ * top-level fields the operation selects. Query fields resolve in
+ * parallel, so the slowest one counts; mutation fields resolve one after
+ * another, so theirs add up.
+ */
+function graphqlFieldLatency(effect: ChaosEffect, request: ChaosRequest, actions: string[]): number {
+    const operation = graphqlOperationOf(request);
+    if (!operation) {
+        actions.push('graphql_latency:skipped(reason=not_graphql)');
+        return 0;
+    }
+
+    const latencies = effect.graphqlFieldLatencyMs ?? {};
+    const fields = operation.fields.filter(field => Object.hasOwn(latencies, field));
+    if (fields.length === 0) {
+        actions.push('graphql_latency:skipped(reason=no_field)');
+        return 0;
+    }
+
+    const delays = fields.map(field => Math.max(0, latencies[field]));
+    const delayMs = operation.operationType === 'mutation'
+        ? delays.reduce((sum, fieldDelay) => sum + fieldDelay, 0)
+        : Math.max(...delays);
+    actions.push(`graphql_latency:${delayMs}ms(fields=${fields.join(',')})`);
+    return delayMs;
+}
+
+/**
+ * Fold a 'mutate-request' effect into the mutation collected so far.
+ * Header and query changes accumulate in effect order.
+ */
+function mergeRequestMutation(current: RequestMutation | undefined, effect: ChaosEffect): RequestMutation {
+    const merged: RequestMutation = current ?? { headerMutations: [], queryMutations: [], bodyBytes: null, method: null };
+
+    merged.headerMutations.push(...(effect.requestHeaderMutations ?? []));
+    merged.queryMutations.push(...(effect.queryMutations ?? []));
+    if (effect.requestBodyBytes !== undefined) {
+        const bytes = Math.max(0, effect.requestBodyBytes);
+        merged.bodyBytes = merged.bodyBytes === null ? bytes : Math.min(merged.bodyBytes, bytes);
+    }
+    if (effect.requestMethod) {
+        merged.method = effect.requestMethod;
+    }
+    return merged;
+}
+
+/**
+ * Decide whether a count-based trigger fires on the given hit (1-based)
+ * and record the outcome. Rules without a trigger always fire silently.
+ */
+function checkTrigger(trigger: RuleTrigger | undefined, hit: number, actions: string[]): boolean {
+    if (!trigger || trigger.mode === 'always') return true;
+
+    const count = Math.max(1, trigger.count);
+    let fired: boolean;
+    switch (trigger.mode) {
+        case 'first-n':
+            fired = hit <= count;
+            break;
+        case 'every-nth':
+            fired = hit % count === 0;
+            break;
+        case 'after-n':
+            fired = hit > count;
+            break;
+        default:
+            fired = true;
+    }
+
+    actions.push(`trigger:${fired ? 'fired' : 'skipped'}(${trigger.mode}=${count},hit=${hit})`);
+    return fired;
+}
+
+/**
+ * Roll a trigger probability (percentage 0-100) and record the outcome.
+ * An undefined probability (or 100+) always fires and records nothing.
+ * 
+ * @param effectType - Set for effect-level rolls, omitted for rule-level rolls
+ * @returns true if the rule/effect should fire
+ */
+function rollProbability(
+    probability: number | undefined,
+    random: RandomSource,
+    actions: string[],
+    effectType?: string
+): boolean {
+    if (probability === undefined || probability >= 100) return true;
+
+    const fired = random() * 100 < probability;
+    const target = effectType ? `,effect=${effectType}` : '';
+    actions.push(`probability:${fired ? 'passed' : 'skipped'}(${probability}%${target})`);
+    return fired;
+}
+
+/**
+ * Pick a status from a weighted distribution. Returns undefined when there
+ * is no distribution (or no positive weight), so callers fall back to a
+ * fixed status.
+ */
+function pickWeightedStatus(weights: WeightedStatus[] | undefined, random: RandomSource): number | undefined {
+    const entries = (weights ?? []).filter(entry => entry.weight > 0);
+    const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+    if (total <= 0) return undefined;
+
+    let roll = random() * total;
+    for (const entry of entries) {
+        roll -= entry.weight;
+        if (roll < 0) return entry.status;
+    }
+    return entries[entries.length - 1].status;
+}
+
+/**
+ * Apply a single pre-proxy effect, appending its action to `actions` and
+ * any headers for the client's response to `responseHeaders`.
+ * Returns the short-circuit outcome, or null to continue the pipeline.
+ */
+function applyPreProxyEffect(
+    rule: ChaosRule,
+    effect: ChaosEffect,
+    index: number,
+    request: ChaosRequest,
+    actions: string[],
+    responseHeaders: Record<string, string>
+): Pick<PreProxyResult, 'skipUpstream' | 'immediateResponse' | 'timeoutConfig'> | null {
     // Step 2a: Drop rate check (random 429 - legacy "rate-limit" type)
-    if (rule.chaosType === 'rate-limit') {
-        const failRate = rule.failRate ?? 50;
-        const roll = Math.random() * 100;
+    if (effect.type === 'rate-limit') {
+        const failRate = effect.failRate ?? 50;
+        const roll = request.random() * 100;
         const triggered = roll < failRate;
 
-        if (triggered) {
-            actions.push(`drop_rate:triggered:${failRate}%`);
-            return {
-                skipUpstream: true,
-                immediateResponse: {
-                    statusCode: 429,
-                    body: JSON.stringify({
-                        error: true,
-                        message: 'Too Many Requests (drop rate triggered)',
-                        chaosMonkey: true,
-                    }),
-                    contentType: 'application/json',
-                },
-                actionsApplied: actions,
-                matchedRule: rule,
-            };
-        } else {
+        if (!triggered) {
             actions.push(`drop_rate:passed:${failRate}%`);
-            return {
-                skipUpstream: false,
-                immediateResponse: null,
-                actionsApplied: actions,
-                matchedRule: rule,
-            };
+            return null;
         }
-    }
 
-    // Step 2b: Token bucket rate limiter (true rate limiting)
-    if (rule.chaosType === 'token-bucket') {
-        const rps = rule.rps ?? 10;
-        const burst = rule.burst ?? rps;
-        const bucketKey = `${method}:${rule.id}`;
+        actions.push(`drop_rate:triggered:${failRate}%`);
+        return {
+            skipUpstream: true,
+            immediateResponse: {
+                statusCode: 429,
+                body: JSON.stringify({
+                    error: true,
+                    message: 'Too Many Requests (drop rate triggered)',
+                    chaosMonkey: true,
+                }),
+                contentType: 'application/json',
+            },
+        };
+    }
 
-        const bucket = getOrCreateBucket(bucketKey, rps, burst);
-        const result = tryConsumeToken(bucket);
+    // Step 2b: Rate limiter (token bucket, fixed window or sliding window)
+    if (effect.type === 'token-bucket') {
+        return applyRateLimit(rule, effect, index, request, actions, responseHeaders);
+    }
 
-        if (result.allowed) {
-            actions.push(`token_bucket:passed`);
-            return {
-                skipUpstream: false,
-                immediateResponse: null,
-                actionsApplied: actions,
-                matchedRule: rule,
-            };
-        } else {
-            actions.push(`token_bucket:blocked(retry_after=${result.retryAfter})`);
-            return {
-                skipUpstream: true,
-                immediateResponse: {
-                    statusCode: 429,
-                    body: JSON.stringify({
-                        error: true,
-                        message: 'Too Many Requests (rate limited)',
-                        retryAfter: result.retryAfter,
-                        chaosMonkey: true,
-                    }),
-                    contentType: 'application/json',
-                    headers: {
-                        'Retry-After': String(result.retryAfter),
-                    },
-                },
-                actionsApplied: actions,
-                matchedRule: rule,
-            };
-        }
+    // Step 2c: Per-client scripted sequence
+    if (effect.type === 'sequence') {
+        return applySequenceStep(rule, effect, index, request, actions);
     }
 
     // Step 3: Timeout (hang, don't respond, destroy socket after delay)
-    if (rule.chaosType === 'timeout') {
+    if (effect.type === 'timeout') {
         const DEFAULT_TIMEOUT_MS = 8000;
-        const baseTimeout = rule.timeoutMs ?? DEFAULT_TIMEOUT_MS;
-        const jitter = rule.jitterMs ?? 0;
+        const baseTimeout = effect.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        const jitter = effect.jitterMs ?? 0;
         // Apply random jitter: +/- jitterMs
-        const jitterOffset = jitter > 0 ? Math.floor(Math.random() * jitter * 2) - jitter : 0;
+        const jitterOffset = jitter > 0 ? Math.floor(request.random() * jitter * 2) - jitter : 0;
         const durationMs = Math.max(0, baseTimeout + jitterOffset);
 
         actions.push(`timeout:triggered(ms=${durationMs})`);
@@ -288,150 +762,785 @@ export function runPreProxyPipeline(path: string, method: string): PreProxyResul
             skipUpstream: true,
             immediateResponse: null, // null = hang/timeout, no HTTP response
             timeoutConfig: { durationMs },
-            actionsApplied: actions,
-            matchedRule: rule,
         };
     }
 
-    // Step 4: Forced error
-    if (rule.chaosType === 'error') {
-        const statusCode = rule.errorStatusCode ?? 500;
-        const message = rule.errorMessage ?? 'Internal Server Error';
-        actions.push(`error:${statusCode}`);
+    // Step 4: Forced error (fixed status, or drawn from the weighted distribution)
+    if (effect.type === 'error') {
+        const weightedStatus = pickWeightedStatus(effect.statusWeights, request.random);
+        const statusCode = weightedStatus ?? effect.errorStatusCode ?? 500;
+        const message = effect.errorMessage ?? 'Internal Server Error';
+        actions.push(weightedStatus === undefined ? `error:${statusCode}` : `error:${statusCode}(weighted)`);
 
+        return {
+            skipUpstream: true,
+            immediateResponse: buildErrorResponse(effect, statusCode, message, request),
+        };
+    }
+
+    // Step 4b: GraphQL error (a 200 with an errors array, as GraphQL servers report failures)
+    if (effect.type === 'graphql-error') {
+        const error = graphqlError(effect, undefined);
+        actions.push(`graphql_error:${error.extensions.code}`);
         return {
             skipUpstream: true,
             immediateResponse: {
-                statusCode,
-                body: JSON.stringify({
-                    error: true,
-                    message,
-                    chaosMonkey: true,
-                }),
+                statusCode: 200,
+                body: JSON.stringify({ errors: [error], data: null }),
                 contentType: 'application/json',
             },
-            actionsApplied: actions,
-            matchedRule: rule,
         };
     }
 
-    // Other chaos types (latency, corrupt) are handled post-proxy
+    return null;
+}
+
+/**
+ * An entry of a GraphQL `errors` array, at `path` in the data if given.
+ */
+function graphqlError(effect: ChaosEffect, path: (string | number)[] | undefined) {
     return {
-        skipUpstream: false,
-        immediateResponse: null,
-        actionsApplied: actions,
-        matchedRule: rule,
+        message: effect.graphqlErrorMessage ?? 'Internal server error',
+        ...(path && { path }),
+        extensions: { code: effect.graphqlErrorCode ?? 'INTERNAL_SERVER_ERROR', chaosMonkey: true },
+    };
+}
+
+/**
+ * Build an error response from the effect's template and custom body,
+ * content type and headers.
+ */
+function buildErrorResponse(
+    effect: ChaosEffect,
+    statusCode: number,
+    message: string,
+    request: ChaosRequest
+): NonNullable<PreProxyResult['immediateResponse']> {
+    const rendered = renderErrorResponse(effect, {
+        statusCode,
+        message,
+        requestId: request.requestId,
+        path: request.path,
+        method: request.method,
+        timestamp: new Date().toISOString(),
+    });
+    return { statusCode, ...rendered };
+}
+
+/**
+ * Count the request against its limiter. Passing requests continue with
+ * rate limit headers for their response; blocked ones get a 429.
+ */
+function applyRateLimit(
+    rule: ChaosRule,
+    effect: ChaosEffect,
+    index: number,
+    request: ChaosRequest,
+    actions: string[],
+    responseHeaders: Record<string, string>
+): Pick<PreProxyResult, 'skipUpstream' | 'immediateResponse'> | null {
+    const algorithm: LimiterAlgorithm = effect.limiterAlgorithm ?? 'token-bucket';
+    const label = algorithm.replace('-', '_');
+
+    const clientKey = resolveLimiterClientKey(effect, request);
+    if (clientKey === undefined) {
+        actions.push(`${label}:skipped(reason=no_client_key)`);
+        return null;
+    }
+
+    const rps = effect.rps ?? 10;
+    const decision = consumeRateLimit(`${rule.id}:${index}:${algorithm}:${clientKey}`, {
+        algorithm,
+        limit: algorithm === 'token-bucket' ? effect.burst ?? rps : effect.windowLimit ?? 60,
+        rps,
+        windowMs: effect.windowMs ?? 60_000,
+    });
+
+    Object.assign(responseHeaders, rateLimitHeaders(effect, decision));
+    const client = (effect.limiterKeySource ?? 'global') === 'global' ? '' : `client=${clientKey}`;
+
+    if (decision.allowed) {
+        actions.push(client ? `${label}:passed(${client})` : `${label}:passed`);
+        return null;
+    }
+
+    const details = [`retry_after=${decision.retryAfterSeconds}`, client].filter(Boolean).join(',');
+    actions.push(`${label}:blocked(${details})`);
+    return {
+        skipUpstream: true,
+        immediateResponse: {
+            statusCode: 429,
+            body: JSON.stringify({
+                error: true,
+                message: 'Too Many Requests (rate limited)',
+                retryAfter: decision.retryAfterSeconds,
+                chaosMonkey: true,
+            }),
+            contentType: 'application/json',
+            headers: {
+                'Retry-After': String(decision.retryAfterSeconds),
+            },
+        },
+    };
+}
+
+/**
+ * Identify who shares a limiter. Global limiters are shared per method;
+ * returns undefined when the header naming the client is missing.
+ */
+function resolveLimiterClientKey(effect: ChaosEffect, request: ChaosRequest): string | undefined {
+    const headerValue = (name: string): string | undefined => {
+        const value = request.headers[name.toLowerCase()];
+        return Array.isArray(value) ? value[0] : value;
+    };
+
+    switch (effect.limiterKeySource ?? 'global') {
+        case 'ip':
+            return `ip:${request.clientIp}`;
+        case 'api-key': {
+            const apiKey = headerValue('x-api-key') ?? headerValue('authorization');
+            return apiKey ? `api-key:${maskSecret(apiKey)}` : undefined;
+        }
+        case 'header': {
+            if (!effect.limiterKeyHeader) return undefined;
+            const value = headerValue(effect.limiterKeyHeader);
+            return value ? `header:${value}` : undefined;
+        }
+        default:
+            return `method:${request.method}`;
+    }
+}
+
+/**
+ * Shorten an API key for keys and logs: a prefix plus a hash of the rest,
+ * so distinct keys stay distinct without the secret ending up in the log.
+ */
+function maskSecret(secret: string): string {
+    let hash = 0;
+    for (let i = 0; i < secret.length; i++) {
+        hash = (Math.imul(hash, 31) + secret.charCodeAt(i)) | 0;
+    }
+    return `${secret.slice(0, 4)}…${(hash >>> 0).toString(16)}`;
+}
+
+/**
+ * Rate limit headers describing a limiter decision, in the effect's style.
+ */
+function rateLimitHeaders(effect: ChaosEffect, decision: LimiterDecision): Record<string, string> {
+    switch (effect.rateLimitHeaders ?? 'x-ratelimit') {
+        case 'ratelimit':
+            return {
+                'RateLimit-Limit': String(decision.limit),
+                'RateLimit-Remaining': String(decision.remaining),
+                'RateLimit-Reset': String(decision.resetSeconds),
+            };
+        case 'none':
+            return {};
+        default:
+            return {
+                'X-RateLimit-Limit': String(decision.limit),
+                'X-RateLimit-Remaining': String(decision.remaining),
+                'X-RateLimit-Reset': String(Math.ceil(Date.now() / 1000) + decision.resetSeconds),
+            };
+    }
+}
+
+/**
+ * Play the next step of a client's sequence. Returns null when the step
+ * (or the end of the script) lets the request through.
+ */
+function applySequenceStep(
+    rule: ChaosRule,
+    effect: ChaosEffect,
+    index: number,
+    request: ChaosRequest,
+    actions: string[]
+): Pick<PreProxyResult, 'skipUpstream' | 'immediateResponse' | 'timeoutConfig'> | null {
+    const clientKey = resolveSequenceClientKey(effect, request);
+    if (!clientKey) {
+        actions.push(`sequence:skipped(reason=no_client_key)`);
+        return null;
+    }
+
+    const steps: SequenceStep[] = effect.sequenceSteps ?? [];
+    const position = advanceClientSequence(
+        `${rule.id}:${index}:${clientKey}`,
+        effect.sequenceIdleMs ?? DEFAULT_SEQUENCE_IDLE_MS
+    );
+
+    if (position >= steps.length) {
+        actions.push(`sequence:ended(client=${clientKey})`);
+        return null;
+    }
+
+    const step = steps[position];
+    actions.push(`sequence:${step}(step=${position + 1}/${steps.length},client=${clientKey})`);
+
+    if (step === 'pass') return null;
+
+    if (step === 'timeout') {
+        return {
+            skipUpstream: true,
+            immediateResponse: null,
+            timeoutConfig: { durationMs: effect.timeoutMs ?? 8000 },
+        };
+    }
+
+    return {
+        skipUpstream: true,
+        immediateResponse: buildErrorResponse(
+            effect,
+            step,
+            effect.errorMessage ?? `Scripted failure (step ${position + 1})`,
+            request
+        ),
     };
 }
 
+/**
+ * Identify the client a sequence is played for: a header value or the IP.
+ */
+function resolveSequenceClientKey(effect: ChaosEffect, request: ChaosRequest): string | undefined {
+    if (effect.sequenceKeySource === 'header') {
+        if (!effect.sequenceKeyHeader) return undefined;
+        const value = request.headers[effect.sequenceKeyHeader.toLowerCase()];
+        return Array.isArray(value) ? value[0] : value;
+    }
+    return `ip:${request.clientIp}`;
+}
+
+// ============================================================================
+// Concurrency Limits (Step 5)
+// ============================================================================
+
+/**
+ * Claim a slot from each concurrency limit, in effect order, waiting in
+ * their queues as needed. If any slot can't be claimed, the ones already
+ * held are freed and a 503 is returned instead.
+ */
+export async function acquireConcurrencySlots(
+    limits: ConcurrencyLimit[],
+    request: ChaosRequest,
+    actions: string[]
+): Promise<ConcurrencyResult> {
+    const releases: (() => void)[] = [];
+    const release = () => releases.forEach(releaseSlot => releaseSlot());
+    let queueWaitMs = 0;
+
+    for (const { key, effect } of limits) {
+        const maxConcurrent = effect.maxConcurrent ?? 5;
+        const outcome = await acquireSlot(key, {
+            maxConcurrent,
+            queueSize: effect.queueSize ?? 0,
+            queueTimeoutMs: effect.queueTimeoutMs ?? 5000,
+        });
+        queueWaitMs += outcome.waitedMs;
+
+        if (outcome.acquired) {
+            releases.push(outcome.release);
+            actions.push(`concurrency:acquired(active=${outcome.active}/${maxConcurrent},waited=${outcome.waitedMs}ms)`);
+            continue;
+        }
+
+        release();
+        actions.push(
+            `concurrency:rejected(reason=${outcome.reason},active=${outcome.active}/${maxConcurrent},` +
+            `queued=${outcome.queued},waited=${outcome.waitedMs}ms)`
+        );
+        const message = outcome.reason === 'queue_full'
+            ? 'Service Unavailable (concurrency limit reached)'
+            : 'Service Unavailable (timed out waiting for a free slot)';
+        return {
+            release,
+            queueWaitMs,
+            rejection: buildErrorResponse(effect, 503, effect.errorMessage ?? message, request),
+        };
+    }
+
+    return { release, queueWaitMs, rejection: null };
+}
+
 // ============================================================================
-// Post-Proxy Pipeline (Steps 6-7)
+// Post-Proxy Pipeline (Steps 6-9)
 // ============================================================================
 
 /**
  * Determine post-proxy chaos effects based on the matched rule.
  * 
  * Order:
- * 6. Latency delay
- * 7. Corrupt JSON
+ * 6. Latency delay (multiple latency effects of the same phase add up)
+ * 7. Corrupt JSON / GraphQL partial data (applied after corruption)
+ * 8. Status rewrite (chained: each effect sees the status left by the previous one) /
+ *    Response headers (mutations of all header effects, in order)
+ * 9. Throttle (the slowest throttle effect wins) / Reset (the earliest cutoff wins) /
+ *    Stream (delays add up, the highest drop rate and the earliest cutoff win)
  */
-export function getPostProxyEffects(rule: ChaosRule | null): PostProxyResult {
+export function getPostProxyEffects(
+    rule: ChaosRule | null,
+    upstreamStatus: number,
+    random: RandomSource
+): PostProxyResult {
     const actions: string[] = [];
-    let delayMs = 0;
-    let corruptResponse = false;
+    let headersDelayMs = 0;
+    let bodyDelayMs = 0;
+    const corruptEffects: ChaosEffect[] = [];
+    const graphqlPartialEffects: ChaosEffect[] = [];
+    let throttle: ThrottleConfig | null = null;
+    let resetFraction: number | null = null;
+    let stream: StreamChaosConfig | null = null;
+    const headerMutations: HeaderMutation[] = [];
+    let statusCode: number | null = null;
 
     if (!rule) {
-        return { delayMs: 0, corruptResponse: false, actionsApplied: [] };
+        return {
+            headersDelayMs: 0,
+            bodyDelayMs: 0,
+            corruptEffects: [],
+            graphqlPartialEffects: [],
+            throttle: null,
+            resetFraction: null,
+            stream: null,
+            statusCode: null,
+            headerMutations: [],
+            actionsApplied: [],
+        };
     }
 
-    // Step 6: Latency delay
-    if (rule.chaosType === 'latency') {
-        if (rule.latencyMs !== undefined) {
-            delayMs = rule.latencyMs;
-        } else {
-            const min = rule.latencyMinMs ?? 100;
-            const max = rule.latencyMaxMs ?? 1000;
-            delayMs = Math.floor(Math.random() * (max - min + 1)) + min;
+    for (const effect of rule.effects) {
+        if (isPreProxyEffect(effect)) continue;
+        if (!rollProbability(effect.probability, random, actions, effect.type)) continue;
+
+        // Step 6: Latency delay
+        if (effect.type === 'latency') {
+            const effectDelayMs = rollLatency(effect, random, actions);
+            if (latencyPhaseOf(effect) === 'before-body') {
+                bodyDelayMs += effectDelayMs;
+            } else {
+                headersDelayMs += effectDelayMs;
+            }
+        }
+
+        // Step 7: Corrupt JSON
+        if (effect.type === 'corrupt') {
+            corruptEffects.push(effect);
+            // Actions will be added when we actually corrupt
+        }
+
+        // Step 7: GraphQL partial data
+        if (effect.type === 'graphql-partial') {
+            graphqlPartialEffects.push(effect);
+            // Actions are added per field when the body is changed
+        }
+
+        // Step 8: Status rewrite
+        if (effect.type === 'status-rewrite') {
+            const current = statusCode ?? upstreamStatus;
+            if (effect.rewriteFromStatuses?.length && !effect.rewriteFromStatuses.includes(current)) {
+                actions.push(`status_rewrite:skipped(status=${current})`);
+            } else {
+                const weightedStatus = pickWeightedStatus(effect.statusWeights, random);
+                statusCode = weightedStatus ?? effect.rewriteStatusCode ?? 500;
+                actions.push(`status_rewrite:${current}->${statusCode}${weightedStatus === undefined ? '' : '(weighted)'}`);
+            }
+        }
+
+        // Step 8: Response headers
+        if (effect.type === 'headers') {
+            headerMutations.push(...(effect.headerMutations ?? []));
+            // Actions are added per header when the mutations are applied
+        }
+
+        // Step 9: Throttle
+        if (effect.type === 'throttle') {
+            const bytesPerSecond = Math.max(1, effect.bytesPerSecond ?? 20480);
+            const chunkSize = Math.max(1, effect.chunkSize ?? 1024);
+            if (!throttle || bytesPerSecond < throttle.bytesPerSecond) {
+                throttle = { bytesPerSecond, chunkSize };
+            }
+            actions.push(`throttle:${bytesPerSecond}B/s(chunk=${chunkSize})`);
+        }
+
+        // Step 9: Reset mid-response
+        if (effect.type === 'reset') {
+            const fraction = Math.min(1, Math.max(0, effect.resetFraction ?? 0.5));
+            resetFraction = resetFraction === null ? fraction : Math.min(resetFraction, fraction);
+            actions.push(`reset:after(${Math.round(fraction * 100)}%)`);
+        }
+
+        // Step 9: Stream chaos
+        if (effect.type === 'stream') {
+            const chunkDelayMs = Math.max(0, effect.streamChunkDelayMs ?? 0);
+            const dropPercent = Math.min(100, Math.max(0, effect.streamDropPercent ?? 0));
+            const cutAfterEvents = effect.streamCutAfterEvents ?? null;
+            const previous: StreamChaosConfig = stream ?? { chunkDelayMs: 0, dropPercent: 0, cutAfterEvents: null };
+            stream = {
+                chunkDelayMs: previous.chunkDelayMs + chunkDelayMs,
+                dropPercent: Math.max(previous.dropPercent, dropPercent),
+                cutAfterEvents: previous.cutAfterEvents === null || cutAfterEvents === null
+                    ? previous.cutAfterEvents ?? cutAfterEvents
+                    : Math.min(previous.cutAfterEvents, cutAfterEvents),
+            };
+            actions.push(
+                `stream:chaos(delay=${chunkDelayMs}ms,drop=${dropPercent}%,cut_after=${cutAfterEvents ?? 'never'})`
+            );
         }
-        actions.push(`latency:${delayMs}ms`);
     }
 
-    // Step 7: Corrupt JSON
-    if (rule.chaosType === 'corrupt') {
-        corruptResponse = true;
-        // Action will be added when we actually corrupt
+    return {
+        headersDelayMs,
+        bodyDelayMs,
+        corruptEffects,
+        graphqlPartialEffects,
+        throttle,
+        resetFraction,
+        stream,
+        statusCode,
+        headerMutations,
+        actionsApplied: actions,
+    };
+}
+
+// ============================================================================
+// WebSocket Chaos
+// ============================================================================
+
+/** Close code for a connection dropped without a close frame */
+export const ABNORMAL_CLOSURE = 1006;
+
+/**
+ * Codes a close frame may carry (1005, 1006 and 1015 are reserved for
+ * reporting and can't be sent).
+ */
+export function isSendableCloseCode(code: number): boolean {
+    return (code >= 1000 && code <= 1003) || (code >= 1007 && code <= 1014) || (code >= 3000 && code <= 4999);
+}
+
+/**
+ * Get the chaos to apply to a proxied WebSocket connection from the
+ * 'websocket' effects of the rule matched in the pre-proxy phase (which
+ * also runs for upgrades, so errors, limiters and timeouts apply to them).
+ * Returns null when no 'websocket' effect fired.
+ * 
+ * A refusing effect wins outright. Otherwise message delays add up, the
+ * highest drop and duplicate rates win, the earliest close wins, and effects
+ * aimed at different directions widen to both.
+ */
+export function getWebSocketChaos(
+    rule: ChaosRule | null,
+    request: ChaosRequest,
+    actions: string[]
+): WebSocketChaosConfig | null {
+    let config: WebSocketChaosConfig | null = null;
+
+    for (const effect of rule?.effects ?? []) {
+        if (effect.type !== 'websocket') continue;
+        if (!rollProbability(effect.probability, request.random, actions, effect.type)) continue;
+
+        if (effect.wsRefuseStatus !== undefined) {
+            actions.push(`websocket:refused(status=${effect.wsRefuseStatus})`);
+            return {
+                ...(config ?? emptyWebSocketChaos()),
+                refusal: buildErrorResponse(effect, effect.wsRefuseStatus, 'WebSocket upgrade refused', request),
+            };
+        }
+
+        const previous: WebSocketChaosConfig = config ?? emptyWebSocketChaos();
+        const direction = effect.wsDirection ?? 'both';
+        const closeAfterMessages = earliest(previous.closeAfterMessages, effect.wsCloseAfterMessages ?? null);
+        const closeAfterMs = earliest(previous.closeAfterMs, effect.wsCloseAfterMs ?? null);
+        const closesEarlier = closeAfterMessages !== previous.closeAfterMessages || closeAfterMs !== previous.closeAfterMs;
+
+        config = {
+            refusal: null,
+            messageDelayMs: previous.messageDelayMs + Math.max(0, effect.wsMessageDelayMs ?? 0),
+            dropPercent: Math.max(previous.dropPercent, effect.wsDropPercent ?? 0),
+            duplicatePercent: Math.max(previous.duplicatePercent, effect.wsDuplicatePercent ?? 0),
+            direction: config === null || previous.direction === direction ? direction : 'both',
+            closeAfterMessages,
+            closeAfterMs,
+            closeCode: closesEarlier ? effect.wsCloseCode ?? ABNORMAL_CLOSURE : previous.closeCode,
+        };
+        actions.push(
+            `websocket:chaos(delay=${effect.wsMessageDelayMs ?? 0}ms,drop=${effect.wsDropPercent ?? 0}%,` +
+            `duplicate=${effect.wsDuplicatePercent ?? 0}%,direction=${direction})`
+        );
     }
 
-    return { delayMs, corruptResponse, actionsApplied: actions };
+    return config;
 }
 
+function emptyWebSocketChaos(): WebSocketChaosConfig {
+    return {
+        refusal: null,
+        messageDelayMs: 0,
+        dropPercent: 0,
+        duplicatePercent: 0,
+        direction: 'both',
+        closeAfterMessages: null,
+        closeAfterMs: null,
+        closeCode: ABNORMAL_CLOSURE,
+    };
+}
+
+function earliest(a: number | null, b: number | null): number | null {
+    if (a === null) return b;
+    if (b === null) return a;
+    return Math.min(a, b);
+}
+
+// ============================================================================
+// JSON Corruption (Step 7)
+// ============================================================================
+
 /**
- * Safely corrupt a JSON response body.
+ * The parameters of a corrupt effect.
+ */
+export type CorruptionOptions = Pick<
+    ChaosEffect,
+    'corruptStrategies' | 'corruptPaths' | 'corruptDeep' | 'corruptMutations'
+>;
+
+const DEFAULT_CORRUPTION_STRATEGIES: CorruptionStrategy[] = ['remove', 'nullify'];
+const MAX_CORRUPT_MUTATIONS = 100;
+
+/**
+ * Corrupt a JSON response body.
  * 
- * SAFE corruption methods (won't crash clients):
- * - For objects: remove a random top-level key OR set a random value to null
- * - For arrays: remove a random element OR set a random element to null
+ * Applies `corruptMutations` mutations (default 1). Each one picks a
+ * strategy at random, then a target the strategy applies to among the
+ * fields selected by `corruptPaths` - or, without paths, among the
+ * top-level fields (any field with `corruptDeep`). Every mutation is
+ * recorded with the JSONPath of the field it changed. 'invalid-json'
+ * truncates the serialized document once all other mutations are done.
  * 
- * This function NEVER throws. If parsing fails or corruption cannot be applied,
- * it returns the original body unchanged with a 'skipped' action.
+ * This function NEVER throws. If parsing fails or no mutation can be applied,
+ * it returns the original body unchanged with 'skipped' actions.
  */
-export function corruptJsonBody(body: string): CorruptionResult {
+export function corruptJsonBody(body: string, random: RandomSource, options: CorruptionOptions = {}): CorruptionResult {
+    let document: unknown;
     try {
-        const parsed = JSON.parse(body);
+        document = JSON.parse(body);
+    } catch {
+        // JSON parsing failed - return original unchanged
+        return { body, actions: ['corrupt_json:skipped(reason=parse_error)'], corrupted: false };
+    }
 
-        // Choose corruption method: 'remove' or 'nullify'
-        const method = Math.random() < 0.5 ? 'remove' : 'nullify';
+    const strategies = options.corruptStrategies?.length ? options.corruptStrategies : DEFAULT_CORRUPTION_STRATEGIES;
+    const mutations = Math.min(MAX_CORRUPT_MUTATIONS, Math.max(1, Math.floor(options.corruptMutations ?? 1)));
+    const actions: string[] = [];
+    const mutatedPaths = new Set<string>();
+    let changed = false;
+    let truncateDocument = false;
 
-        if (Array.isArray(parsed)) {
-            // Handle arrays
-            if (parsed.length === 0) {
-                return { body, action: 'corrupt_json:skipped(reason=empty_array)' };
-            }
+    for (let i = 0; i < mutations; i++) {
+        const strategy = pickRandom(strategies, random);
+        if (strategy === 'invalid-json') {
+            truncateDocument = true;
+            continue;
+        }
 
-            const index = Math.floor(Math.random() * parsed.length);
+        // Targets are re-selected for every mutation, as earlier ones may have moved or removed
+        // fields; a field is mutated at most once so later mutations don't undo earlier ones
+        const targets = selectCorruptionTargets(document, options)
+            .filter(target => !mutatedPaths.has(target.path) && canCorrupt(strategy, target));
+        if (targets.length === 0) {
+            actions.push(`corrupt_json:skipped(strategy=${strategy},reason=no_target)`);
+            continue;
+        }
 
-            if (method === 'remove') {
-                parsed.splice(index, 1);
-                return {
-                    body: JSON.stringify(parsed),
-                    action: `corrupt_json:removed_index:${index}`,
-                };
-            } else {
-                parsed[index] = null;
-                return {
-                    body: JSON.stringify(parsed),
-                    action: `corrupt_json:null_index:${index}`,
-                };
-            }
-        } else if (typeof parsed === 'object' && parsed !== null) {
-            // Handle objects
-            const keys = Object.keys(parsed);
-            if (keys.length === 0) {
-                return { body, action: 'corrupt_json:skipped(reason=empty_object)' };
-            }
+        const target = pickRandom(targets, random);
+        actions.push(applyCorruption(strategy, target, random));
+        mutatedPaths.add(target.path);
+        changed = true;
+    }
 
-            const key = keys[Math.floor(Math.random() * keys.length)];
+    let result = changed ? JSON.stringify(document) : body;
 
-            if (method === 'remove') {
-                delete parsed[key];
-                return {
-                    body: JSON.stringify(parsed),
-                    action: `corrupt_json:removed_key:${key}`,
-                };
-            } else {
-                parsed[key] = null;
-                return {
-                    body: JSON.stringify(parsed),
-                    action: `corrupt_json:null_value:${key}`,
-                };
-            }
+    if (truncateDocument) {
+        if (result.length < 2) {
+            actions.push('corrupt_json:skipped(strategy=invalid-json,reason=too_short)');
         } else {
-            // Primitive value (string, number, boolean, null) - can't corrupt meaningfully
-            return { body, action: 'corrupt_json:skipped(reason=primitive_value)' };
+            const cutAt = 1 + Math.floor(random() * (result.length - 1));
+            actions.push(`corrupt_json:truncated_document(at=${cutAt}/${result.length})`);
+            result = result.slice(0, cutAt);
+            changed = true;
         }
+    }
+
+    return { body: result, actions, corrupted: changed };
+}
+
+// ============================================================================
+// GraphQL Partial Data (Step 7)
+// ============================================================================
+
+/**
+ * Turn a GraphQL response into a partial one: null the fields selected by
+ * `graphqlNullPaths` (JSONPath over the whole response, e.g.
+ * "$.data.user.email") - or, without paths, one random top-level field of
+ * `data` - and add an error with the field's path for each, the way a
+ * GraphQL server reports a failed resolver.
+ *
+ * Never throws; bodies without a `data` object are returned unchanged.
+ */
+export function nullGraphQLFields(body: string, random: RandomSource, effect: ChaosEffect): CorruptionResult {
+    let document: unknown;
+    try {
+        document = JSON.parse(body);
     } catch {
-        // JSON parsing failed - return original unchanged
-        return { body, action: 'corrupt_json:skipped(reason=parse_error)' };
+        return { body, actions: ['graphql_partial:skipped(reason=parse_error)'], corrupted: false };
+    }
+
+    if (!isJsonObject(document) || !isJsonObject(document.data)) {
+        return { body, actions: ['graphql_partial:skipped(reason=no_data)'], corrupted: false };
+    }
+
+    // Only fields inside data can be nulled, and null ones are left alone
+    const candidates = effect.graphqlNullPaths?.length
+        ? effect.graphqlNullPaths.flatMap(path => selectJsonPath(document, path))
+            .filter(target => target.keys[0] === 'data' && target.keys.length > 1)
+        : childLocations(childLocations(rootLocation(document)).find(location => location.key === 'data')!);
+    const available = candidates.filter(target => target.value !== null);
+    if (available.length === 0) {
+        return { body, actions: ['graphql_partial:skipped(reason=no_target)'], corrupted: false };
+    }
+
+    const targets = effect.graphqlNullPaths?.length ? available : [pickRandom(available, random)];
+    const errors = Array.isArray(document.errors) ? document.errors : [];
+    const actions: string[] = [];
+
+    for (const target of targets) {
+        setLocationValue(target, null);
+        errors.push(graphqlError(effect, target.keys.slice(1)));
+        actions.push(`graphql_partial:nulled(${target.path})`);
+    }
+    document.errors = errors;
+
+    return { body: JSON.stringify(document), actions, corrupted: true };
+}
+
+function selectCorruptionTargets(document: unknown, options: CorruptionOptions): JsonLocation[] {
+    if (options.corruptPaths?.length) {
+        return options.corruptPaths.flatMap(path => selectJsonPath(document, path));
+    }
+
+    const root = rootLocation(document);
+    return [root, ...(options.corruptDeep ? descendantLocations(root) : childLocations(root))];
+}
+
+/**
+ * Whether a strategy can be applied to a location. The document root can
+ * only be extended or reordered, never removed or replaced.
+ */
+function canCorrupt(strategy: CorruptionStrategy, target: JsonLocation): boolean {
+    switch (strategy) {
+        case 'remove':
+        case 'flip-type':
+            return target.parent !== null;
+        case 'nullify':
+            return target.parent !== null && target.value !== null;
+        case 'truncate-string':
+            return target.parent !== null && typeof target.value === 'string' && target.value.length > 0;
+        case 'inject-field':
+            return isJsonObject(target.value);
+        case 'reorder-array':
+            return Array.isArray(target.value) && target.value.length > 1;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Apply one mutation in place and describe it.
+ */
+function applyCorruption(strategy: CorruptionStrategy, target: JsonLocation, random: RandomSource): string {
+    switch (strategy) {
+        case 'remove':
+            if (Array.isArray(target.parent)) {
+                target.parent.splice(target.key as number, 1);
+            } else {
+                delete (target.parent as Record<string, unknown>)[target.key];
+            }
+            return `corrupt_json:removed(${target.path})`;
+
+        case 'nullify':
+            setLocationValue(target, null);
+            return `corrupt_json:nullified(${target.path})`;
+
+        case 'flip-type': {
+            const flipped = flipJsonType(target.value);
+            setLocationValue(target, flipped);
+            return `corrupt_json:flipped_type(${target.path},${jsonTypeName(target.value)}->${jsonTypeName(flipped)})`;
+        }
+
+        case 'truncate-string': {
+            const value = target.value as string;
+            const length = Math.floor(random() * value.length);
+            setLocationValue(target, value.slice(0, length));
+            return `corrupt_json:truncated_string(${target.path},chars=${value.length}->${length})`;
+        }
+
+        case 'inject-field': {
+            const object = target.value as Record<string, unknown>;
+            let index = 1;
+            while (`chaos_${index}` in object) index += 1;
+            const key = `chaos_${index}`;
+            object[key] = pickRandom(INJECTED_VALUES, random);
+            return `corrupt_json:injected_field(${target.path}.${key})`;
+        }
+
+        case 'reorder-array': {
+            const array = target.value as unknown[];
+            const original = [...array];
+            shuffleInPlace(array, random);
+            if (array.every((item, i) => item === original[i])) array.reverse();
+            return `corrupt_json:reordered_array(${target.path},length=${array.length})`;
+        }
+
+        default:
+            return `corrupt_json:skipped(strategy=${strategy},reason=unknown_strategy)`;
+    }
+}
+
+/**
+ * Values of injected fields: a mix of types a strict client won't expect.
+ */
+const INJECTED_VALUES: unknown[] = ['unexpected', 42, true, null, { nested: 'surprise' }, [1, 'two', null]];
+
+function setLocationValue(target: JsonLocation, value: unknown): void {
+    (target.parent as Record<string | number, unknown>)[target.key] = value;
+}
+
+/**
+ * Change a value's JSON type: numbers and booleans become strings, numeric
+ * strings become numbers (other strings their length), null becomes
+ * "null", objects become their JSON text and arrays become objects.
+ */
+function flipJsonType(value: unknown): unknown {
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (typeof value === 'string') {
+        const numeric = Number(value);
+        return value.trim() !== '' && !isNaN(numeric) ? numeric : value.length;
+    }
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return { ...value };
+    return JSON.stringify(value);
+}
+
+function jsonTypeName(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function pickRandom<T>(items: T[], random: RandomSource): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+function shuffleInPlace(items: unknown[], random: RandomSource): void {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [items[i], items[j]] = [items[j], items[i]];
     }
 }
 
@@ -447,8 +1556,8 @@ export function delay(ms: number): Promise<void> {
 }
 
 /**
- * Clear all token buckets (useful for testing).
+ * Forget all client sequence progress (useful for testing).
  */
-export function clearTokenBuckets(): void {
-    tokenBuckets.clear();
+export function clearClientSequences(): void {
+    clientSequences.clear();
 }
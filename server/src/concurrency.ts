@@ -0,0 +1,137 @@
+/**
+ * Concurrency Limit State
+ *
+ * In-flight request slots behind the 'concurrency' effect, one pool per
+ * key (rule + effect). A request beyond `maxConcurrent` waits in a FIFO
+ * queue of at most `queueSize` for up to `queueTimeoutMs`; slots are handed
+ * to queued requests as earlier ones finish.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ConcurrencyConfig {
+    maxConcurrent: number;
+    queueSize: number;         // 0 = reject as soon as every slot is taken
+    queueTimeoutMs: number;
+}
+
+export type SlotOutcome =
+    | {
+        acquired: true;
+        waitedMs: number;      // Time spent in the queue (0 if a slot was free)
+        active: number;        // In-flight requests, including this one
+        release: () => void;   // Frees the slot (safe to call more than once)
+    }
+    | {
+        acquired: false;
+        reason: 'queue_full' | 'queue_timeout';
+        waitedMs: number;
+        active: number;
+        queued: number;
+    };
+
+interface Waiter {
+    grant: () => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+interface SlotPool {
+    active: number;
+    maxConcurrent: number;
+    queue: Waiter[];
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+const pools = new Map<string, SlotPool>();
+
+/**
+ * Claim an in-flight slot for `key`, queueing if every slot is taken.
+ * Config changes (e.g. an edited rule) take effect on the next request.
+ */
+export async function acquireSlot(key: string, config: ConcurrencyConfig): Promise<SlotOutcome> {
+    let pool = pools.get(key);
+    if (!pool) {
+        pool = { active: 0, maxConcurrent: config.maxConcurrent, queue: [] };
+        pools.set(key, pool);
+    }
+    pool.maxConcurrent = config.maxConcurrent;
+    drainQueue(pool);
+
+    const startTime = Date.now();
+
+    if (pool.active < pool.maxConcurrent && pool.queue.length === 0) {
+        pool.active += 1;
+        return grantedSlot(key, pool, 0);
+    }
+
+    if (pool.queue.length >= config.queueSize) {
+        return { acquired: false, reason: 'queue_full', waitedMs: 0, active: pool.active, queued: pool.queue.length };
+    }
+
+    const queuedPool = pool;
+    const acquired = await new Promise<boolean>(resolve => {
+        const waiter: Waiter = {
+            grant: () => resolve(true),
+            timer: setTimeout(() => {
+                queuedPool.queue.splice(queuedPool.queue.indexOf(waiter), 1);
+                resolve(false);
+            }, config.queueTimeoutMs),
+        };
+        queuedPool.queue.push(waiter);
+    });
+
+    const waitedMs = Date.now() - startTime;
+    if (!acquired) {
+        return {
+            acquired: false,
+            reason: 'queue_timeout',
+            waitedMs,
+            active: pool.active,
+            queued: pool.queue.length,
+        };
+    }
+    return grantedSlot(key, pool, waitedMs);
+}
+
+function grantedSlot(key: string, pool: SlotPool, waitedMs: number): SlotOutcome {
+    let released = false;
+    return {
+        acquired: true,
+        waitedMs,
+        active: pool.active,
+        release: () => {
+            if (released) return;
+            released = true;
+            pool.active -= 1;
+            drainQueue(pool);
+            if (pool.active === 0 && pool.queue.length === 0 && pools.get(key) === pool) {
+                pools.delete(key);
+            }
+        },
+    };
+}
+
+/**
+ * Hand free slots to queued requests, oldest first.
+ */
+function drainQueue(pool: SlotPool): void {
+    while (pool.active < pool.maxConcurrent && pool.queue.length > 0) {
+        const waiter = pool.queue.shift()!;
+        clearTimeout(waiter.timer);
+        pool.active += 1;
+        waiter.grant();
+    }
+}
+
+/**
+ * Forget all slot pools (useful for testing). Requests already holding
+ * or waiting for a slot keep their pool until they finish.
+ */
+export function clearConcurrencyPools(): void {
+    pools.clear();
+}
@@ -0,0 +1,143 @@
+/**
+ * Error Response Templates
+ *
+ * Bodies for chaos-generated error responses that look like real outages:
+ * a reverse proxy's HTML error page, a load balancer page, an RFC 7807
+ * problem document, or nothing at all. Custom bodies and header values
+ * may use placeholders, filled in per request:
+ * {{requestId}} {{path}} {{method}} {{timestamp}} {{status}} {{message}}
+ */
+
+import { STATUS_CODES } from 'http';
+import { ChaosEffect, ErrorTemplate } from './types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Per-request values available to templates and placeholders.
+ */
+export interface ErrorContext {
+    statusCode: number;
+    message: string;
+    requestId: string;
+    path: string;
+    method: string;
+    timestamp: string;         // ISO 8601
+}
+
+export interface RenderedError {
+    body: string;              // Empty string = no body
+    contentType?: string;      // Unset = no Content-Type header
+    headers: Record<string, string>;
+}
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+const TEMPLATES: Record<ErrorTemplate, (context: ErrorContext) => RenderedError> = {
+    'chaos-json': (context) => ({
+        body: JSON.stringify({ error: true, message: context.message, chaosMonkey: true }),
+        contentType: 'application/json',
+        headers: {},
+    }),
+
+    nginx: (context) => ({
+        body: [
+            '<html>',
+            `<head><title>${statusLine(context.statusCode)}</title></head>`,
+            '<body>',
+            `<center><h1>${statusLine(context.statusCode)}</h1></center>`,
+            '<hr><center>nginx</center>',
+            '</body>',
+            '</html>',
+            '',
+        ].join('\r\n'),
+        contentType: 'text/html',
+        headers: { Server: 'nginx' },
+    }),
+
+    'aws-alb': (context) => ({
+        body: [
+            '<html>',
+            `<head><title>${statusLine(context.statusCode)}</title></head>`,
+            '<body>',
+            `<center><h1>${statusLine(context.statusCode)}</h1></center>`,
+            '</body>',
+            '</html>',
+            '',
+        ].join('\r\n'),
+        contentType: 'text/html',
+        headers: { Server: 'awselb/2.0' },
+    }),
+
+    'problem-json': (context) => ({
+        body: JSON.stringify({
+            type: 'about:blank',
+            title: STATUS_CODES[context.statusCode] ?? 'Error',
+            status: context.statusCode,
+            detail: context.message,
+            instance: context.path,
+            requestId: context.requestId,
+            timestamp: context.timestamp,
+        }),
+        contentType: 'application/problem+json',
+        headers: {},
+    }),
+
+    empty: () => ({
+        body: '',
+        headers: {},
+    }),
+};
+
+function statusLine(statusCode: number): string {
+    return `${statusCode} ${STATUS_CODES[statusCode] ?? 'Error'}`;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render the error response for an effect: its template (default
+ * 'chaos-json'), then the custom body, content type and headers on top.
+ */
+export function renderErrorResponse(effect: ChaosEffect, context: ErrorContext): RenderedError {
+    const rendered = TEMPLATES[effect.errorTemplate ?? 'chaos-json'](context);
+
+    if (effect.errorBody !== undefined) {
+        rendered.body = fillPlaceholders(effect.errorBody, context);
+        rendered.contentType = effect.errorContentType || 'text/plain';
+    } else if (effect.errorContentType) {
+        rendered.contentType = effect.errorContentType;
+    }
+    for (const [name, value] of Object.entries(effect.errorHeaders ?? {})) {
+        rendered.headers[name] = fillPlaceholders(value, context);
+    }
+
+    return rendered;
+}
+
+/**
+ * Replace {{name}} placeholders with per-request values. Unknown
+ * placeholders are left as they are.
+ */
+function fillPlaceholders(text: string, context: ErrorContext): string {
+    const values: Record<string, string> = {
+        requestId: context.requestId,
+        path: context.path,
+        method: context.method,
+        timestamp: context.timestamp,
+        status: String(context.statusCode),
+        message: context.message,
+    };
+    return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder);
+}
+
+export function isErrorTemplate(value: unknown): value is ErrorTemplate {
+    return typeof value === 'string' && Object.keys(TEMPLATES).includes(value);
+}
@@ -8,9 +8,16 @@
  * - GET /fake/users - 25 deterministic users
  * - GET /fake/orders - Orders with ?count and ?slow params
  * - POST /fake/login - Mock authentication
+ * - GET /fake/events - Server-Sent Events stream with ?count and ?intervalMs params
+ * - POST /fake/graphql - GraphQL endpoint over the same users and orders (GET for queries)
+ * - WS /fake/echo - WebSocket that echoes every message back
  */
 
 import { Router, Request, Response } from 'express';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer } from 'ws';
+import { GraphQLField, GraphQLOperation, parseGraphQLOperation } from './graphql.js';
 
 export const fakeRouter = Router();
 
@@ -228,6 +235,237 @@ fakeRouter.get('/posts', (req: Request, res: Response) => {
     res.json(posts);
 });
 
+/**
+ * GET /fake/events - Server-Sent Events stream (for testing streaming chaos)
+ * ?count=N (default 10, max 1000) events, one every ?intervalMs=N (default 500, max 10000)
+ */
+fakeRouter.get('/events', async (req: Request, res: Response) => {
+    let count = parseInt(req.query.count as string, 10);
+    if (isNaN(count) || count < 1) count = 10;
+    if (count > 1000) count = 1000;
+
+    let intervalMs = parseInt(req.query.intervalMs as string, 10);
+    if (isNaN(intervalMs) || intervalMs < 0) intervalMs = 500;
+    if (intervalMs > 10000) intervalMs = 10000;
+
+    let clientGone = false;
+    res.on('close', () => { clientGone = true; });
+
+    res.status(200);
+    res.set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    res.flushHeaders();
+
+    for (let id = 1; id <= count && !clientGone; id++) {
+        if (id > 1) await delay(intervalMs);
+        res.write(`id: ${id}\nevent: tick\ndata: ${JSON.stringify({ id, of: count })}\n\n`);
+    }
+    res.end();
+});
+
+// ============================================================================
+// GraphQL
+// ============================================================================
+
+/**
+ * Schema of the fake GraphQL endpoint: for each type, how each of its
+ * fields resolves, and the type of the fields that hold objects.
+ *
+ *   type Query { users(limit: Int): [User]  user(id: Int!): User  orders(count: Int): [Order] }
+ *   type Mutation { updateUserRole(id: Int!, role: String!): User }
+ *   type User { id name email username role createdAt orders: [Order] }
+ *   type Order { id userId total status createdAt items: [OrderItem] user: User }
+ *   type OrderItem { name price quantity }
+ */
+interface GraphQLFieldDefinition {
+    type?: string;
+    resolve: (parent: Record<string, unknown>, args: Record<string, unknown>) => unknown;
+}
+
+class GraphQLRequestError extends Error {}
+
+/**
+ * Fields resolved straight from the parent object.
+ */
+function scalarFields(...names: string[]): Record<string, GraphQLFieldDefinition> {
+    return Object.fromEntries(names.map(name => [name, { resolve: (parent) => parent[name] }]));
+}
+
+function findUser(id: unknown) {
+    return generateUsers().find(user => user.id === Number(id)) ?? null;
+}
+
+const GRAPHQL_SCHEMA: Record<string, Record<string, GraphQLFieldDefinition>> = {
+    Query: {
+        users: {
+            type: 'User',
+            resolve: (_parent, { limit }) => generateUsers().slice(0, typeof limit === 'number' ? Math.max(0, limit) : 25),
+        },
+        user: { type: 'User', resolve: (_parent, { id }) => findUser(id) },
+        orders: {
+            type: 'Order',
+            resolve: (_parent, { count }) =>
+                generateOrders(typeof count === 'number' ? Math.min(Math.max(1, count), 50) : 10),
+        },
+    },
+    Mutation: {
+        updateUserRole: {
+            type: 'User',
+            resolve: (_parent, { id, role }) => {
+                const user = findUser(id);
+                if (!user) throw new Error(`User ${String(id)} not found`);
+                return { ...user, role: String(role) };
+            },
+        },
+    },
+    User: {
+        ...scalarFields('id', 'name', 'email', 'username', 'role', 'createdAt'),
+        orders: { type: 'Order', resolve: (user) => generateOrders(50).filter(order => order.userId === user.id) },
+    },
+    Order: {
+        ...scalarFields('id', 'userId', 'total', 'status', 'createdAt'),
+        items: { type: 'OrderItem', resolve: (order) => order.items },
+        user: { type: 'User', resolve: (order) => findUser(order.userId) },
+    },
+    OrderItem: scalarFields('name', 'price', 'quantity'),
+};
+
+/**
+ * Check every selection against the schema before executing, the way a
+ * GraphQL server rejects an invalid document as a whole.
+ */
+function validateSelections(selections: GraphQLField[], typeName: string): void {
+    for (const field of selections) {
+        if (field.name === '__typename') continue;
+
+        const definition = GRAPHQL_SCHEMA[typeName][field.name];
+        if (!definition) {
+            throw new GraphQLRequestError(`Cannot query field "${field.name}" on type "${typeName}"`);
+        }
+        if (definition.type && field.selections.length === 0) {
+            throw new GraphQLRequestError(`Field "${field.name}" of type "${definition.type}" must have a selection of subfields`);
+        }
+        if (!definition.type && field.selections.length > 0) {
+            throw new GraphQLRequestError(`Field "${field.name}" must not have a selection since it is a scalar`);
+        }
+        if (definition.type) {
+            validateSelections(field.selections, definition.type);
+        }
+    }
+}
+
+/**
+ * Resolve a selection set on a value. A resolver that throws nulls its
+ * field and adds an error with the field's path.
+ */
+function executeSelections(
+    selections: GraphQLField[],
+    typeName: string,
+    parent: Record<string, unknown>,
+    path: (string | number)[],
+    errors: object[]
+): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (const field of selections) {
+        const key = field.alias ?? field.name;
+        if (field.name === '__typename') {
+            result[key] = typeName;
+            continue;
+        }
+
+        const definition = GRAPHQL_SCHEMA[typeName][field.name];
+        let value: unknown;
+        try {
+            value = definition.resolve(parent, field.args) ?? null;
+        } catch (err) {
+            errors.push({ message: err instanceof Error ? err.message : String(err), path: [...path, key] });
+            result[key] = null;
+            continue;
+        }
+
+        const objectType = definition.type;
+        if (!objectType || value === null) {
+            result[key] = value;
+        } else if (Array.isArray(value)) {
+            result[key] = value.map((item, index) =>
+                executeSelections(field.selections, objectType, item, [...path, key, index], errors));
+        } else {
+            result[key] = executeSelections(field.selections, objectType, value as Record<string, unknown>, [...path, key], errors);
+        }
+    }
+
+    return result;
+}
+
+function executeOperation(operation: GraphQLOperation): { data: Record<string, unknown>; errors: object[] } {
+    const rootType = operation.operationType === 'mutation' ? 'Mutation' : 'Query';
+    validateSelections(operation.selections, rootType);
+
+    const errors: object[] = [];
+    const data = executeSelections(operation.selections, rootType, {}, [], errors);
+    return { data, errors };
+}
+
+/**
+ * POST /fake/graphql - GraphQL over the fake users and orders (for testing GraphQL chaos)
+ * Body: { query, operationName?, variables? }; GET takes the same as query params (queries only)
+ */
+fakeRouter.all('/graphql', (req: Request, res: Response) => {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+        res.status(405).set('Allow', 'GET, POST').json({ errors: [{ message: 'GraphQL requests must use GET or POST' }] });
+        return;
+    }
+
+    try {
+        const params = req.method === 'GET'
+            ? {
+                query: req.query.query,
+                operationName: req.query.operationName,
+                variables: typeof req.query.variables === 'string' ? JSON.parse(req.query.variables) : undefined,
+            }
+            : req.body || {};
+        const operation = parseGraphQLOperation(params);
+
+        if (!operation.operationType) {
+            throw new GraphQLRequestError('Persisted queries are not supported');
+        }
+        if (operation.operationType === 'subscription') {
+            throw new GraphQLRequestError('Subscriptions are not supported');
+        }
+        if (operation.operationType === 'mutation' && req.method === 'GET') {
+            res.status(405).set('Allow', 'POST').json({ errors: [{ message: 'Mutations must use POST' }] });
+            return;
+        }
+
+        const { data, errors } = executeOperation(operation);
+        res.json(errors.length > 0 ? { errors, data } : { data });
+    } catch (err) {
+        res.status(400).json({ errors: [{ message: err instanceof Error ? err.message : String(err) }] });
+    }
+});
+
+/**
+ * WS /fake/echo - Echoes every message back (for testing WebSocket chaos)
+ */
+const echoServer = new WebSocketServer({ noServer: true });
+
+echoServer.on('connection', (ws) => {
+    ws.on('message', (data, isBinary) => ws.send(data, { binary: isBinary }));
+    ws.on('error', () => ws.terminate());
+});
+
+/**
+ * Accept a WebSocket upgrade for the fake API. Only /fake/echo speaks WebSocket.
+ */
+export function handleFakeUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== '/fake/echo') {
+        socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+        return;
+    }
+    echoServer.handleUpgrade(req, socket, head, (ws) => echoServer.emit('connection', ws, req));
+}
+
 /**
  * Catch-all for unmatched fake routes
  */
@@ -241,6 +479,9 @@ fakeRouter.all('*', (req: Request, res: Response) => {
             'POST /fake/login',
             'GET /fake/posts',
             'GET /fake/posts/:id',
+            'GET /fake/events?count=N&intervalMs=N',
+            'POST /fake/graphql',
+            'WS /fake/echo',
         ],
     });
 });
@@ -0,0 +1,382 @@
+/**
+ * GraphQL Request Parsing
+ *
+ * A small parser for GraphQL requests, enough for rules to tell operations
+ * on a shared /graphql endpoint apart and for the fake API to answer them:
+ * - the operation's name and type (query, mutation or subscription)
+ * - its selections: fields with aliases, arguments (variables substituted)
+ *   and sub-selections, with fragment spreads and inline fragments expanded
+ *
+ * Directives are ignored (@skip and @include fields count as selected),
+ * and there is no validation against a schema.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GraphQLOperationType = 'query' | 'mutation' | 'subscription';
+
+export const GRAPHQL_OPERATION_TYPES: GraphQLOperationType[] = ['query', 'mutation', 'subscription'];
+
+export interface GraphQLField {
+    name: string;
+    alias?: string;
+    args: Record<string, unknown>;
+    selections: GraphQLField[];
+}
+
+/**
+ * The operation a GraphQL request executes.
+ */
+export interface GraphQLOperation {
+    operationName?: string;    // From the request, else the operation's own name
+    operationType?: GraphQLOperationType; // Unset for persisted queries sent without a document
+    fields: string[];          // Names of the top-level fields, in order
+    selections: GraphQLField[];
+}
+
+/**
+ * The parameters of a GraphQL request, from a JSON body or the query string.
+ */
+export interface GraphQLRequestParams {
+    query?: unknown;
+    operationName?: unknown;
+    variables?: unknown;
+}
+
+type Token = { kind: 'name' | 'punct' | 'string' | 'number'; text: string };
+
+interface RawField {
+    name: string;
+    alias?: string;
+    args: Record<string, unknown>;
+    selections: RawSelection[];
+}
+
+type RawSelection = RawField | { fragment: string };
+
+interface RawOperation {
+    type: GraphQLOperationType;
+    name?: string;
+    selections: RawSelection[];
+}
+
+class GraphQLSyntaxError extends Error {}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+// Whitespace, commas and comments are insignificant
+const IGNORED = /(?:[\s,\ufeff]|#[^\n\r]*)+/y;
+const TOKENS: [Token['kind'], RegExp][] = [
+    ['string', /"""[\s\S]*?"""|"(?:\\.|[^"\\\n\r])*"/y],
+    ['punct', /\.\.\.|[!$&():=@[\]{|}]/y],
+    ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y],
+    ['name', /[A-Za-z_]\w*/y],
+];
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+
+    while (position < source.length) {
+        IGNORED.lastIndex = position;
+        if (IGNORED.test(source)) {
+            position = IGNORED.lastIndex;
+            continue;
+        }
+
+        const token = TOKENS.find(([, pattern]) => {
+            pattern.lastIndex = position;
+            return pattern.test(source);
+        });
+        if (!token) {
+            throw new GraphQLSyntaxError(`Unexpected character "${source[position]}"`);
+        }
+
+        const [kind, pattern] = token;
+        tokens.push({ kind, text: source.slice(position, pattern.lastIndex) });
+        position = pattern.lastIndex;
+    }
+
+    return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+class Parser {
+    private position = 0;
+
+    constructor(private readonly tokens: Token[], private readonly variables: Record<string, unknown>) {}
+
+    /**
+     * Parse a document into its operations and fragments.
+     */
+    parseDocument(): { operations: RawOperation[]; fragments: Map<string, RawSelection[]> } {
+        const operations: RawOperation[] = [];
+        const fragments = new Map<string, RawSelection[]>();
+
+        while (this.peek()) {
+            if (this.peekText('{')) {
+                operations.push({ type: 'query', selections: this.parseSelectionSet() });
+                continue;
+            }
+
+            const keyword = this.expectName();
+            if (keyword === 'fragment') {
+                const name = this.expectName();
+                this.expectKeyword('on');
+                this.expectName();
+                this.skipDirectives();
+                fragments.set(name, this.parseSelectionSet());
+            } else if ((GRAPHQL_OPERATION_TYPES as string[]).includes(keyword)) {
+                const name = this.peek()?.kind === 'name' ? this.expectName() : undefined;
+                if (this.peekText('(')) this.skipBalanced('(', ')'); // Variable definitions
+                this.skipDirectives();
+                operations.push({ type: keyword as GraphQLOperationType, name, selections: this.parseSelectionSet() });
+            } else {
+                throw new GraphQLSyntaxError(`Unexpected "${keyword}"`);
+            }
+        }
+
+        return { operations, fragments };
+    }
+
+    private parseSelectionSet(): RawSelection[] {
+        this.expect('{');
+        const selections: RawSelection[] = [];
+
+        while (!this.peekText('}')) {
+            if (this.peekText('...')) {
+                this.position += 1;
+                if (this.peek()?.kind === 'name' && !this.peekText('on')) {
+                    selections.push({ fragment: this.expectName() });
+                    this.skipDirectives();
+                } else {
+                    // Inline fragment: its fields count as selected whatever the type condition
+                    if (this.peekText('on')) {
+                        this.position += 1;
+                        this.expectName();
+                    }
+                    this.skipDirectives();
+                    selections.push(...this.parseSelectionSet());
+                }
+                continue;
+            }
+
+            let name = this.expectName();
+            let alias: string | undefined;
+            if (this.peekText(':')) {
+                this.position += 1;
+                alias = name;
+                name = this.expectName();
+            }
+            const args = this.peekText('(') ? this.parseArguments() : {};
+            this.skipDirectives();
+            const children = this.peekText('{') ? this.parseSelectionSet() : [];
+            selections.push({ name, ...(alias && { alias }), args, selections: children });
+        }
+
+        this.expect('}');
+        return selections;
+    }
+
+    private parseArguments(): Record<string, unknown> {
+        this.expect('(');
+        const args: Record<string, unknown> = {};
+        while (!this.peekText(')')) {
+            const name = this.expectName();
+            this.expect(':');
+            args[name] = this.parseValue();
+        }
+        this.expect(')');
+        return args;
+    }
+
+    private parseValue(): unknown {
+        const token = this.next();
+
+        switch (token.kind) {
+            case 'number':
+                return Number(token.text);
+            case 'string':
+                return token.text.startsWith('"""') ? token.text.slice(3, -3).trim() : JSON.parse(token.text);
+            case 'name':
+                if (token.text === 'true') return true;
+                if (token.text === 'false') return false;
+                if (token.text === 'null') return null;
+                return token.text; // Enum value
+        }
+
+        if (token.text === '$') {
+            return this.variables[this.expectName()];
+        }
+        if (token.text === '[') {
+            const items: unknown[] = [];
+            while (!this.peekText(']')) items.push(this.parseValue());
+            this.expect(']');
+            return items;
+        }
+        if (token.text === '{') {
+            const object: Record<string, unknown> = {};
+            while (!this.peekText('}')) {
+                const name = this.expectName();
+                this.expect(':');
+                object[name] = this.parseValue();
+            }
+            this.expect('}');
+            return object;
+        }
+        throw new GraphQLSyntaxError(`Unexpected "${token.text}"`);
+    }
+
+    private skipDirectives(): void {
+        while (this.peekText('@')) {
+            this.position += 1;
+            this.expectName();
+            if (this.peekText('(')) this.skipBalanced('(', ')');
+        }
+    }
+
+    private skipBalanced(open: string, close: string): void {
+        let depth = 0;
+        do {
+            const { text } = this.next();
+            if (text === open) depth += 1;
+            if (text === close) depth -= 1;
+        } while (depth > 0);
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.position];
+    }
+
+    private peekText(text: string): boolean {
+        const token = this.peek();
+        return token !== undefined && token.kind !== 'string' && token.text === text;
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.position++];
+        if (!token) throw new GraphQLSyntaxError('Unexpected end of document');
+        return token;
+    }
+
+    private expect(text: string): void {
+        const token = this.next();
+        if (token.text !== text) throw new GraphQLSyntaxError(`Expected "${text}", found "${token.text}"`);
+    }
+
+    private expectKeyword(keyword: string): void {
+        if (this.expectName() !== keyword) throw new GraphQLSyntaxError(`Expected "${keyword}"`);
+    }
+
+    private expectName(): string {
+        const token = this.next();
+        if (token.kind !== 'name') throw new GraphQLSyntaxError(`Expected a name, found "${token.text}"`);
+        return token.text;
+    }
+}
+
+/**
+ * Replace fragment spreads with the fields of their fragments. A fragment
+ * spread inside itself is dropped.
+ */
+function expandFragments(
+    selections: RawSelection[],
+    fragments: Map<string, RawSelection[]>,
+    expanding: Set<string> = new Set()
+): GraphQLField[] {
+    return selections.flatMap((selection): GraphQLField[] => {
+        if ('fragment' in selection) {
+            const fragment = fragments.get(selection.fragment);
+            if (!fragment || expanding.has(selection.fragment)) return [];
+            return expandFragments(fragment, fragments, new Set([...expanding, selection.fragment]));
+        }
+        return [{ ...selection, selections: expandFragments(selection.selections, fragments, expanding) }];
+    });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse the operation a GraphQL request executes: the one named by
+ * `operationName`, or the document's only operation. Persisted queries
+ * sent without a document yield just their operation name.
+ *
+ * @throws Error with a readable message if the document can't be parsed
+ *         or doesn't contain the requested operation
+ */
+export function parseGraphQLOperation(params: GraphQLRequestParams): GraphQLOperation {
+    const operationName = typeof params.operationName === 'string' && params.operationName !== ''
+        ? params.operationName
+        : undefined;
+
+    if (typeof params.query !== 'string') {
+        if (operationName) return { operationName, fields: [], selections: [] };
+        throw new Error('Missing query');
+    }
+
+    const variables = typeof params.variables === 'object' && params.variables !== null
+        ? params.variables as Record<string, unknown>
+        : {};
+
+    let document: ReturnType<Parser['parseDocument']>;
+    try {
+        document = new Parser(tokenize(params.query), variables).parseDocument();
+    } catch (err) {
+        // Malformed string literals fail in JSON.parse, so not every error is a GraphQLSyntaxError
+        throw new Error(`Syntax error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    const operation = operationName
+        ? document.operations.find(candidate => candidate.name === operationName)
+        : document.operations.length === 1 ? document.operations[0] : undefined;
+    if (!operation) {
+        throw new Error(operationName
+            ? `Unknown operation "${operationName}"`
+            : 'The document must contain exactly one operation, or operationName must name one');
+    }
+
+    const selections = expandFragments(operation.selections, document.fragments);
+    return {
+        operationName: operationName ?? operation.name,
+        operationType: operation.type,
+        fields: [...new Set(selections.map(field => field.name))],
+        selections,
+    };
+}
+
+/**
+ * Read the GraphQL request carried by a JSON body, or by the query string
+ * of a GET request. Returns null for anything that isn't a GraphQL request.
+ */
+export function readGraphQLRequest(body: unknown, query: URLSearchParams): GraphQLOperation | null {
+    let params: GraphQLRequestParams | null = null;
+
+    if (typeof body === 'object' && body !== null && !Array.isArray(body)) {
+        params = body as GraphQLRequestParams;
+    } else if (query.has('query') || query.has('operationName')) {
+        let variables: unknown;
+        try {
+            variables = JSON.parse(query.get('variables') ?? 'null');
+        } catch {
+            variables = undefined;
+        }
+        params = { query: query.get('query') ?? undefined, operationName: query.get('operationName'), variables };
+    }
+
+    if (!params || (params.query === undefined && params.operationName === undefined)) return null;
+
+    try {
+        return parseGraphQLOperation(params);
+    } catch {
+        return null;
+    }
+}
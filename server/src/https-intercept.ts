@@ -0,0 +1,121 @@
+/**
+ * HTTPS Interception
+ *
+ * Handles CONNECT requests from clients with HTTPS_PROXY set. Instead of
+ * tunnelling the encrypted bytes, the proxy terminates TLS itself with a
+ * certificate for the requested host signed by the local CA. The decrypted
+ * requests are fed back into the app as forward-proxy requests for
+ * "https://host/...", so they run through the same chaos pipeline as any
+ * other proxied request (WebSocket upgrades included). Like forward-proxy
+ * mode, it only runs when the server is started with FORWARD_PROXY=1.
+ */
+
+import { createServer, IncomingMessage, RequestListener, Server } from 'http';
+import { Duplex } from 'stream';
+import { SecureContext, TLSSocket } from 'tls';
+import { getSecureContext } from './certificate-authority.js';
+import { FORWARD_PROXY_ENABLED } from './routing.js';
+import { handleProxyUpgrade } from './ws-proxy.js';
+
+/**
+ * CONNECT authority (host:port) of each decrypted connection.
+ */
+const connectAuthorities = new WeakMap<object, string>();
+
+/**
+ * Parses HTTP on decrypted connections. It never listens; CONNECT handling
+ * hands it each connection.
+ */
+let interceptServer: Server | null = null;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The hostname of a CONNECT authority ("example.com:443", "[::1]:8443"),
+ * or null if it isn't one.
+ */
+function authorityHostname(authority: string): string | null {
+    try {
+        const { hostname } = new URL(`https://${authority}`);
+        return hostname ? hostname.replace(/^\[(.*)\]$/, '$1') : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Turn a decrypted request into a forward-proxy request: its path becomes
+ * an absolute https URI on the host the client connected to.
+ */
+function toForwardRequest(req: IncomingMessage): void {
+    const authority = connectAuthorities.get(req.socket);
+    if (authority && req.url?.startsWith('/')) {
+        req.url = `https://${authority}${req.url}`;
+    }
+}
+
+function refuseConnect(socket: Duplex, status: string): void {
+    socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+/**
+ * Route decrypted requests to the app, and decrypted WebSocket upgrades to
+ * the WebSocket proxy.
+ */
+export function initHttpsInterception(app: RequestListener): void {
+    interceptServer = createServer((req, res) => {
+        toForwardRequest(req);
+        app(req, res);
+    });
+
+    interceptServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        toForwardRequest(req);
+        void handleProxyUpgrade(req, socket, head);
+    });
+}
+
+/**
+ * Handle a CONNECT request: accept the tunnel, then speak TLS to the client
+ * as the requested host.
+ */
+export function handleConnect(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    socket.on('error', () => socket.destroy());
+
+    if (!FORWARD_PROXY_ENABLED) {
+        refuseConnect(socket, '403 Forbidden');
+        return;
+    }
+
+    const authority = req.url ?? '';
+    const hostname = authorityHostname(authority);
+    if (!interceptServer || !hostname) {
+        refuseConnect(socket, '400 Bad Request');
+        return;
+    }
+
+    let secureContext: SecureContext;
+    try {
+        secureContext = getSecureContext(hostname);
+    } catch (err) {
+        console.error(`HTTPS interception unavailable for ${hostname}:`, err instanceof Error ? err.message : err);
+        refuseConnect(socket, '502 Bad Gateway');
+        return;
+    }
+
+    socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+    if (head.length > 0) {
+        socket.unshift(head);
+    }
+
+    const tlsSocket = new TLSSocket(socket, { isServer: true, secureContext });
+    // Clients that don't trust the CA abort the handshake
+    tlsSocket.on('error', () => tlsSocket.destroy());
+    connectAuthorities.set(tlsSocket, authority);
+    interceptServer.emit('connection', tlsSocket);
+}
@@ -5,24 +5,40 @@
  * 1. A proxy endpoint (/proxy/*) that forwards requests with chaos effects
  * 2. A REST API (/api/*) for managing configuration and rules
  * 3. A WebSocket endpoint (/ws) for real-time log updates
+ * 4. WebSocket proxying: upgrades on /proxy/* are forwarded with chaos effects
+ * 5. A forward proxy: absolute-URI requests (clients with HTTP_PROXY set)
+ *    are sent to the URI they name, with chaos effects (FORWARD_PROXY=1 only)
+ * 6. HTTPS interception: CONNECT tunnels (HTTPS_PROXY) are decrypted with
+ *    certificates from a local CA and proxied like forward-proxy requests
+ *    (FORWARD_PROXY=1 only)
  */
 
 import express from 'express';
 import cors from 'cors';
 import { createServer } from 'http';
 import { apiRouter } from './api.js';
-import { proxyRouter } from './proxy.js';
-import { fakeRouter } from './fake-api.js';
-import { initWebSocket } from './websocket.js';
+import { forwardProxyRouter, proxyRouter } from './proxy.js';
+import { fakeRouter, handleFakeUpgrade } from './fake-api.js';
+import { handleUiUpgrade, initWebSocket } from './websocket.js';
+import { handleProxyUpgrade } from './ws-proxy.js';
+import { FORWARD_PROXY_ENABLED, forwardProxyUrl } from './routing.js';
+import { getCaDirectory, initCertificateAuthority } from './certificate-authority.js';
+import { handleConnect, initHttpsInterception } from './https-intercept.js';
 
 const PORT = process.env.PORT || 3001;
 
 // Create Express app
 const app = express();
 
+// Forward-proxy requests go before everything else: their paths belong to
+// the remote host, and CORS handling must not answer their OPTIONS requests.
+// With forward-proxy mode off they are refused here rather than reaching our own routes
+app.use(forwardProxyRouter);
+
 // Middleware
+// JSON parsing is mounted per router: the proxy buffers raw request bodies
+// itself and would never see a body the JSON parser had already consumed.
 app.use(cors());
-app.use(express.json());
 
 // Health check endpoint
 app.get('/health', (_req, res) => {
@@ -30,10 +46,10 @@ app.get('/health', (_req, res) => {
 });
 
 // API routes for UI
-app.use('/api', apiRouter);
+app.use('/api', express.json(), apiRouter);
 
 // Fake target API (for offline demo mode)
-app.use('/fake', fakeRouter);
+app.use('/fake', express.json(), fakeRouter);
 
 // Proxy routes - all requests to /proxy/* get forwarded
 app.use('/proxy', proxyRouter);
@@ -42,7 +58,41 @@ app.use('/proxy', proxyRouter);
 const server = createServer(app);
 
 // Initialize WebSocket
-initWebSocket(server);
+initWebSocket();
+
+// Load or create the local CA; without it (or without forward-proxy mode)
+// CONNECT requests are refused
+let httpsInterception = FORWARD_PROXY_ENABLED;
+if (httpsInterception) {
+    try {
+        initCertificateAuthority();
+    } catch (err) {
+        httpsInterception = false;
+        console.error('HTTPS interception disabled, could not set up the CA:', err instanceof Error ? err.message : err);
+    }
+    initHttpsInterception(app);
+}
+
+// CONNECT tunnels from HTTPS_PROXY clients are decrypted and proxied
+server.on('connect', handleConnect);
+
+// Route WebSocket upgrades: forward-proxy upgrades and /proxy/* are proxied,
+// /ws is the UI's live log, and /fake/* reaches the fake API's echo socket
+server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (forwardProxyUrl(req.url)) {
+        void handleProxyUpgrade(req, socket, head);
+    } else if (pathname === '/ws') {
+        handleUiUpgrade(req, socket, head);
+    } else if (pathname === '/proxy' || pathname.startsWith('/proxy/')) {
+        void handleProxyUpgrade(req, socket, head);
+    } else if (pathname.startsWith('/fake/')) {
+        handleFakeUpgrade(req, socket, head);
+    } else {
+        socket.destroy();
+    }
+});
 
 // Start server
 server.listen(PORT, () => {
@@ -53,6 +103,13 @@ server.listen(PORT, () => {
     console.log(`   Proxy:      http://localhost:${PORT}/proxy/*`);
     console.log(`   API:        http://localhost:${PORT}/api`);
     console.log(`   WebSocket:  ws://localhost:${PORT}/ws`);
+    console.log(`   WS Proxy:   ws://localhost:${PORT}/proxy/*`);
+    if (FORWARD_PROXY_ENABLED) {
+        console.log(`   HTTP_PROXY: http://localhost:${PORT}`);
+    }
+    if (httpsInterception) {
+        console.log(`   CA cert:    http://localhost:${PORT}/api/ca.pem (stored in ${getCaDirectory()})`);
+    }
     console.log('══════════════════════════════════════════');
     console.log('');
     console.log('Configure target URL and chaos rules via the UI,');
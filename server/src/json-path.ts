@@ -0,0 +1,181 @@
+/**
+ * JSONPath Selection
+ *
+ * A small JSONPath subset for pointing chaos at specific fields of a JSON
+ * document:
+ * - `$`              the document root
+ * - `.name` `['name']` a child member
+ * - `[0]`            an array element
+ * - `.*` `[*]`       every child
+ * - `..name` `..*`   recursive descent
+ *
+ * Filters, slices and unions are not supported.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type JsonContainer = Record<string, unknown> | unknown[];
+
+/**
+ * A value inside a parsed document, addressed by its parent and key so it
+ * can be replaced or removed in place. The root has no parent.
+ */
+export interface JsonLocation {
+    parent: JsonContainer | null;
+    key: string | number;
+    keys: (string | number)[]; // Keys from the root down, e.g. ['users', 3, 'email']
+    path: string;              // Normalized path, e.g. $.users[3].email
+    value: unknown;
+}
+
+type PathSegment =
+    | { kind: 'child'; key: string | number | '*' }
+    | { kind: 'descendant'; key: string | '*' };
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const NAME_PATTERN = /^[A-Za-z_$][\w$-]*/;
+
+/**
+ * Parse a JSONPath expression into segments.
+ * Returns null if the expression is not valid in the supported subset.
+ */
+function parseJsonPath(expression: string): PathSegment[] | null {
+    const text = expression.trim();
+    if (!text.startsWith('$')) return null;
+
+    const segments: PathSegment[] = [];
+    let rest = text.slice(1);
+
+    while (rest.length > 0) {
+        let kind: PathSegment['kind'] = 'child';
+
+        if (rest.startsWith('..')) {
+            kind = 'descendant';
+            rest = rest.slice(2);
+        } else if (rest.startsWith('.')) {
+            rest = rest.slice(1);
+        } else if (!rest.startsWith('[')) {
+            return null;
+        }
+
+        if (rest.startsWith('[')) {
+            const close = rest.indexOf(']');
+            if (close === -1) return null;
+            const key = parseBracket(rest.slice(1, close).trim());
+            if (key === null) return null;
+            if (kind === 'descendant' && typeof key === 'number') return null;
+            segments.push({ kind, key } as PathSegment);
+            rest = rest.slice(close + 1);
+        } else if (rest.startsWith('*')) {
+            segments.push({ kind, key: '*' });
+            rest = rest.slice(1);
+        } else {
+            const name = NAME_PATTERN.exec(rest);
+            if (!name) return null;
+            segments.push({ kind, key: name[0] });
+            rest = rest.slice(name[0].length);
+        }
+    }
+
+    return segments;
+}
+
+function parseBracket(content: string): string | number | null {
+    if (content === '*') return '*';
+    if (/^\d+$/.test(content)) return parseInt(content, 10);
+
+    const quoted = /^(['"])(.*)\1$/.exec(content);
+    return quoted ? quoted[2] : null;
+}
+
+/**
+ * Check whether an expression is valid in the supported subset.
+ */
+export function isValidJsonPath(expression: string): boolean {
+    return parseJsonPath(expression) !== null;
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Select every location an expression points at. Invalid expressions and
+ * paths that lead nowhere select nothing.
+ */
+export function selectJsonPath(root: unknown, expression: string): JsonLocation[] {
+    const segments = parseJsonPath(expression);
+    if (!segments) return [];
+
+    let current: JsonLocation[] = [rootLocation(root)];
+
+    for (const segment of segments) {
+        const next: JsonLocation[] = [];
+        for (const location of current) {
+            const candidates = segment.kind === 'descendant'
+                ? descendantLocations(location)
+                : childLocations(location);
+            next.push(...candidates.filter(candidate => segment.key === '*' || candidate.key === segment.key));
+        }
+        current = next;
+    }
+
+    return current;
+}
+
+export function rootLocation(root: unknown): JsonLocation {
+    return { parent: null, key: '$', keys: [], path: '$', value: root };
+}
+
+/**
+ * The direct children of an object or array location.
+ */
+export function childLocations(location: JsonLocation): JsonLocation[] {
+    const { value } = location;
+
+    if (Array.isArray(value)) {
+        return value.map((item, index) => ({
+            parent: value,
+            key: index,
+            keys: [...location.keys, index],
+            path: `${location.path}[${index}]`,
+            value: item,
+        }));
+    }
+
+    if (isJsonObject(value)) {
+        return Object.keys(value).map(key => ({
+            parent: value,
+            key,
+            keys: [...location.keys, key],
+            path: `${location.path}${formatMemberAccess(key)}`,
+            value: value[key],
+        }));
+    }
+
+    return [];
+}
+
+/**
+ * Every location below the given one, depth-first.
+ */
+export function descendantLocations(location: JsonLocation): JsonLocation[] {
+    const result: JsonLocation[] = [];
+    for (const child of childLocations(location)) {
+        result.push(child, ...descendantLocations(child));
+    }
+    return result;
+}
+
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatMemberAccess(key: string): string {
+    return NAME_PATTERN.exec(key)?.[0] === key ? `.${key}` : `['${key.replace(/'/g, "\\'")}']`;
+}
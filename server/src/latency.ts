@@ -0,0 +1,96 @@
+/**
+ * Latency Distributions
+ *
+ * Samples the delay of a latency effect. Besides a fixed value and a
+ * uniform range, delays can follow the shapes real services show:
+ * normal, log-normal, exponential and Pareto (long tails), or a log-normal
+ * fitted to a median and a 99th percentile.
+ */
+
+import { ChaosEffect, LatencyDistribution } from './types.js';
+import { RandomSource } from './random.js';
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+const DEFAULT_MEAN_MS = 500;
+const DEFAULT_MEDIAN_MS = 200;
+const DEFAULT_SIGMA = 1;
+const DEFAULT_PARETO_MIN_MS = 100;
+const DEFAULT_PARETO_ALPHA = 1.5;
+const DEFAULT_P50_MS = 80;
+const DEFAULT_P99_MS = 2000;
+const DEFAULT_CAP_MS = 60_000;
+
+/** z-score of the 99th percentile of the standard normal distribution */
+const Z_99 = 2.3263;
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * The distribution an effect uses: explicit, or fixed when `latencyMs` is
+ * set and uniform otherwise.
+ */
+export function latencyDistributionOf(effect: ChaosEffect): LatencyDistribution {
+    return effect.latencyDistribution ?? (effect.latencyMs !== undefined ? 'fixed' : 'uniform');
+}
+
+/**
+ * Draw one delay in whole milliseconds. Samples from unbounded
+ * distributions are capped at `latencyMaxMs` (default 60000).
+ */
+export function sampleLatency(effect: ChaosEffect, random: RandomSource): number {
+    const distribution = latencyDistributionOf(effect);
+
+    if (distribution === 'fixed') {
+        return effect.latencyMs ?? 0;
+    }
+    if (distribution === 'uniform') {
+        const min = effect.latencyMinMs ?? 100;
+        const max = effect.latencyMaxMs ?? 1000;
+        return Math.floor(random() * (max - min + 1)) + min;
+    }
+
+    const sample = sampleUnbounded(distribution, effect, random);
+    return Math.round(Math.min(Math.max(0, sample), effect.latencyMaxMs ?? DEFAULT_CAP_MS));
+}
+
+function sampleUnbounded(distribution: LatencyDistribution, effect: ChaosEffect, random: RandomSource): number {
+    switch (distribution) {
+        case 'normal': {
+            const mean = effect.latencyMeanMs ?? DEFAULT_MEAN_MS;
+            return mean + standardNormal(random) * (effect.latencyStdDevMs ?? mean / 4);
+        }
+        case 'log-normal': {
+            const median = effect.latencyMedianMs ?? DEFAULT_MEDIAN_MS;
+            return median * Math.exp(standardNormal(random) * (effect.latencySigma ?? DEFAULT_SIGMA));
+        }
+        case 'exponential':
+            return -(effect.latencyMeanMs ?? DEFAULT_MEAN_MS) * Math.log(1 - random());
+        case 'pareto': {
+            const scale = effect.latencyMinMs ?? DEFAULT_PARETO_MIN_MS;
+            return scale / Math.pow(1 - random(), 1 / (effect.latencyParetoAlpha ?? DEFAULT_PARETO_ALPHA));
+        }
+        case 'percentile': {
+            // Log-normal through both points: median = p50, p99 = p50 * e^(sigma * z99)
+            const p50 = effect.latencyP50Ms ?? DEFAULT_P50_MS;
+            const p99 = effect.latencyP99Ms ?? DEFAULT_P99_MS;
+            const sigma = Math.log(Math.max(p99, p50) / p50) / Z_99;
+            return p50 * Math.exp(standardNormal(random) * sigma);
+        }
+        default:
+            return effect.latencyMs ?? 0;
+    }
+}
+
+/**
+ * Standard normal sample (Box-Muller), from two uniform draws.
+ */
+function standardNormal(random: RandomSource): number {
+    const u1 = 1 - random(); // (0, 1] so the log is finite
+    const u2 = random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
@@ -2,35 +2,59 @@
  * Proxy Middleware - Pipeline-Based Implementation
  * 
  * A production-quality HTTP proxy with explicit chaos pipeline:
- * 1. Match rules (first match wins)
+ * 1. Match rules (priority order, first match wins)
  * 2. Rate limit check
  * 3. Timeout (hang then close)
  * 4. Forced error
- * 5. Proxy to upstream
- * 6. Latency delay (before sending response)
- * 7. Corrupt JSON (only if upstream returned JSON)
+ * 5. Proxy to upstream (after any 'before-upstream' latency, with request mutations applied)
+ * 6. Latency delay (before the headers, or between headers and body)
+ * 7. Corrupt JSON / GraphQL partial data (only if upstream returned JSON)
+ * 8. Status rewrite / Response header chaos (remove / set / rewrite)
+ * 9. Throttle / Reset / Stream chaos (trickle, cut off, or delay and drop chunks of the body)
+ * 
+ * Upstream bodies are streamed to the client as they arrive (so SSE and
+ * long-polling work); they are only buffered when corruption, GraphQL
+ * partial data or a reset needs the whole body.
  * 
  * Each request produces an actionsApplied array tracking what happened.
  */
 
 import { Request, Response, NextFunction, Router } from 'express';
 import { Readable } from 'stream';
-import { getConfig, addLog } from './state.js';
+import { ReadableStream as WebReadableStream } from 'stream/web';
+import { getConfig, addLog, nextRequestSequence } from './state.js';
+import { createRequestRandom, RandomSource } from './random.js';
 import {
     runPreProxyPipeline,
     getPostProxyEffects,
+    acquireConcurrencySlots,
     corruptJsonBody,
+    nullGraphQLFields,
     delay,
+    ChaosRequest,
+    ConcurrencyLimit,
+    PreProxyResult,
+    RequestMutation,
+    StreamChaosConfig,
+    ThrottleConfig,
 } from './chaos-engine.js';
-import { RequestLog } from './types.js';
+import { ChaosRule, HeaderMutation, RequestLog } from './types.js';
 import { broadcast } from './websocket.js';
+import {
+    FORWARD_PROXY_ENABLED,
+    FORWARD_UPSTREAM,
+    forwardProxyUrl,
+    requestHostname,
+    resolveUpstream,
+    upstreamRequestUrl,
+} from './routing.js';
 
 // ============================================================================
 // Constants
 // ============================================================================
 
 const HOP_BY_HOP_HEADERS = new Set([
-    'connection', 'keep-alive', 'proxy-authenticate', 'proxy-authorization',
+    'connection', 'keep-alive', 'proxy-authenticate', 'proxy-authorization', 'proxy-connection',
     'te', 'trailer', 'transfer-encoding', 'upgrade', 'host', 'content-length',
 ]);
 
@@ -38,15 +62,24 @@ const SKIP_RESPONSE_HEADERS = new Set([
     'transfer-encoding', 'connection', 'keep-alive',
 ]);
 
+// Framing headers the proxy computes itself; header chaos leaves them alone
+const PROTECTED_RESPONSE_HEADERS = new Set([
+    'content-length', 'transfer-encoding',
+]);
+
 const TIMEOUT_CHAOS_MAX_DURATION_MS = 5 * 60 * 1000;
 
+// Corruption needs the whole body in memory, so larger bodies are left alone
+const MAX_CORRUPT_SIZE = 1024 * 1024;
+
+// An SSE event ends with a blank line
+const SSE_EVENT_END = /\r\n\r\n|\n\n|\r\r/;
+
 // ============================================================================
 // Router Setup
 // ============================================================================
 
-export const proxyRouter = Router();
-
-proxyRouter.use((req: Request, res: Response, next: NextFunction) => {
+function bufferRawBody(req: Request, _res: Response, next: NextFunction): void {
     const chunks: Buffer[] = [];
     req.on('data', (chunk: Buffer) => chunks.push(chunk));
     req.on('end', () => {
@@ -55,19 +88,60 @@ proxyRouter.use((req: Request, res: Response, next: NextFunction) => {
         next();
     });
     req.on('error', next);
-});
+}
 
-proxyRouter.all('*', proxyHandler);
+/**
+ * Express 4 doesn't handle rejected promises from async handlers, and an
+ * unhandled rejection ends the process. Answer 500 instead, or cut the
+ * connection if the response is already under way.
+ */
+function catchProxyErrors(
+    handler: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+    return (req, res, next) => {
+        handler(req, res, next).catch((err: unknown) => {
+            const message = err instanceof Error ? err.message : String(err);
+            console.error(`Proxy request ${req.method} ${req.originalUrl} failed:`, message);
+            if (res.headersSent) {
+                res.destroy();
+            } else {
+                sendErrorResponse(res, 500, 'Internal proxy error', message);
+            }
+        });
+    };
+}
+
+export const proxyRouter = Router();
+
+proxyRouter.use(bufferRawBody);
+proxyRouter.all('*', catchProxyErrors(proxyHandler));
+
+/**
+ * Forward-proxy requests: absolute-form URIs from clients with HTTP_PROXY
+ * set. Mounted before every other route, since Express would otherwise
+ * route "GET http://api.example.com/api/rules" to our own API.
+ */
+export const forwardProxyRouter = Router();
+
+forwardProxyRouter.use((req: Request, _res: Response, next: NextFunction) => {
+    if (forwardProxyUrl(req.originalUrl)) {
+        next();
+    } else {
+        next('router');
+    }
+});
+forwardProxyRouter.use(bufferRawBody);
+forwardProxyRouter.all('*', catchProxyErrors(forwardProxyHandler));
 
 // ============================================================================
 // Helpers
 // ============================================================================
 
-function generateRequestId(): string {
+export function generateRequestId(): string {
     return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
-function filterRequestHeaders(
+export function filterRequestHeaders(
     headers: Record<string, string | string[] | undefined>
 ): Record<string, string> {
     const filtered: Record<string, string> = {};
@@ -92,7 +166,7 @@ function filterRequestHeaders(
     return filtered;
 }
 
-function cloneHeadersForLog(
+export function cloneHeadersForLog(
     headers: Record<string, string | string[] | undefined>
 ): Record<string, string> {
     const cloned: Record<string, string> = {};
@@ -107,65 +181,525 @@ function sendErrorResponse(res: Response, status: number, message: string, detai
     res.status(status).json({ error: true, message, ...(details && { details }) });
 }
 
+/**
+ * Send a chaos-generated response (rate limit, drop rate, error, concurrency rejection).
+ */
+function sendImmediateResponse(res: Response, response: NonNullable<PreProxyResult['immediateResponse']>): void {
+    // Set any custom headers (e.g., Retry-After for rate limiting)
+    if (response.headers) {
+        for (const [key, value] of Object.entries(response.headers)) {
+            res.set(key, value);
+        }
+    }
+
+    res.status(response.statusCode);
+    if (response.contentType) {
+        res.set('Content-Type', response.contentType);
+    }
+
+    // res.send() would add a Content-Type to an empty body, so end it directly
+    if (response.body === '') {
+        res.end();
+    } else {
+        res.send(response.body);
+    }
+}
+
+/**
+ * A set of named values that name/value mutations can edit: response
+ * headers, forwarded request headers or query parameters.
+ */
+interface MutableFields {
+    names(): string[];
+    get(name: string): string | string[] | undefined;
+    set(name: string, value: string | string[]): void;
+    remove(name: string): void;
+}
+
+interface MutationTarget {
+    label: string;               // Action prefix, e.g. "headers"
+    caseSensitive: boolean;      // Query parameter names are, header names are not
+    protectedNames: Set<string>; // Names the proxy manages itself
+}
+
+function responseHeaderFields(res: Response): MutableFields {
+    return {
+        names: () => res.getHeaderNames(),
+        get: (name) => {
+            const value = res.getHeader(name);
+            return value === undefined || Array.isArray(value) ? value : String(value);
+        },
+        set: (name, value) => { res.setHeader(name, value); },
+        remove: (name) => { res.removeHeader(name); },
+    };
+}
+
+function headerRecordFields(headers: Record<string, string>): MutableFields {
+    return {
+        names: () => Object.keys(headers).map(name => name.toLowerCase()),
+        get: (name) => headers[name],
+        set: (name, value) => { headers[name] = Array.isArray(value) ? value.join(', ') : value; },
+        remove: (name) => { delete headers[name]; },
+    };
+}
+
+function queryFields(params: URLSearchParams): MutableFields {
+    return {
+        names: () => [...new Set(params.keys())],
+        get: (name) => {
+            const values = params.getAll(name);
+            return values.length > 1 ? values : values[0];
+        },
+        set: (name, value) => {
+            params.delete(name);
+            for (const item of Array.isArray(value) ? value : [value]) params.append(name, item);
+        },
+        remove: (name) => { params.delete(name); },
+    };
+}
+
+/**
+ * Apply name/value mutations in order and describe each change as an
+ * action. Mutations that select nothing are recorded as no_match.
+ */
+function applyMutations(fields: MutableFields, mutations: HeaderMutation[], target: MutationTarget): string[] {
+    const actions: string[] = [];
+
+    for (const mutation of mutations) {
+        const ownName = target.caseSensitive ? mutation.name : mutation.name.toLowerCase();
+        const selected = fields.names().filter(name => mutationSelects(mutation, name, target.caseSensitive));
+
+        if (mutation.operation === 'set' && !mutation.regex && !selected.includes(ownName)) {
+            selected.push(ownName);
+        }
+
+        if (selected.length === 0) {
+            actions.push(`${target.label}:no_match(${mutation.operation}=${mutation.name})`);
+            continue;
+        }
+
+        for (const name of selected) {
+            if (target.protectedNames.has(name.toLowerCase())) {
+                actions.push(`${target.label}:skipped(${name},reason=protected)`);
+                continue;
+            }
+
+            if (mutation.operation === 'remove') {
+                fields.remove(name);
+                actions.push(`${target.label}:removed(${name})`);
+            } else if (mutation.operation === 'set') {
+                fields.set(name, mutation.value ?? '');
+                actions.push(`${target.label}:set(${name})`);
+            } else {
+                const current = fields.get(name);
+                const values = Array.isArray(current) ? current : [current ?? ''];
+                const rewritten = values.map(value => rewriteValue(value, mutation));
+                fields.set(name, Array.isArray(current) ? rewritten : rewritten[0]);
+                actions.push(`${target.label}:rewritten(${name})`);
+            }
+        }
+    }
+
+    return actions;
+}
+
+function mutationSelects(mutation: HeaderMutation, name: string, caseSensitive: boolean): boolean {
+    if (!mutation.regex) {
+        return caseSensitive ? name === mutation.name : name === mutation.name.toLowerCase();
+    }
+    try {
+        return new RegExp(mutation.name, caseSensitive ? '' : 'i').test(name);
+    } catch {
+        return false;
+    }
+}
+
+function rewriteValue(value: string, mutation: HeaderMutation): string {
+    if (mutation.pattern === undefined || mutation.pattern === '') return mutation.value ?? '';
+    try {
+        return value.replace(new RegExp(mutation.pattern, 'g'), mutation.value ?? '');
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Apply a 'mutate-request' result to the request about to be forwarded:
+ * headers, query string, body and method. Returns the recorded actions.
+ */
+function applyRequestMutation(
+    outbound: { method: string; headers: Record<string, string>; url: URL; body: Buffer | undefined },
+    mutation: RequestMutation
+): string[] {
+    const actions = [
+        ...applyMutations(headerRecordFields(outbound.headers), mutation.headerMutations, {
+            label: 'request_headers',
+            caseSensitive: false,
+            protectedNames: HOP_BY_HOP_HEADERS,
+        }),
+        ...applyMutations(queryFields(outbound.url.searchParams), mutation.queryMutations, {
+            label: 'request_query',
+            caseSensitive: true,
+            protectedNames: new Set(),
+        }),
+    ];
+
+    if (mutation.bodyBytes !== null && outbound.body && mutation.bodyBytes < outbound.body.length) {
+        actions.push(`request_body:truncated(bytes=${mutation.bodyBytes}/${outbound.body.length})`);
+        outbound.body = outbound.body.subarray(0, mutation.bodyBytes);
+    }
+
+    if (mutation.method && mutation.method !== outbound.method.toUpperCase()) {
+        actions.push(`request_method:${outbound.method}->${mutation.method}`);
+        outbound.method = mutation.method;
+    }
+
+    return actions;
+}
+
+/**
+ * Write the body with transfer chaos applied: held back for `delayMs` after
+ * the headers, paced to the throttle rate if set, and cut off after
+ * `cutoffBytes` with the socket destroyed if set. Content-Length always
+ * declares the full body, so a cut-off response is shorter than announced.
+ * Status and headers must already be set. Stops early if the client disconnects.
+ */
+async function sendBodyWithChaos(
+    res: Response,
+    body: Buffer,
+    options: { delayMs: number; throttle: ThrottleConfig | null; cutoffBytes: number | null }
+): Promise<{ completed: boolean; bytesSent: number; durationMs: number }> {
+    let clientGone = false;
+    res.on('close', () => { clientGone = true; });
+
+    res.setHeader('Content-Length', body.length);
+    res.flushHeaders();
+
+    if (options.delayMs > 0) {
+        await delay(options.delayMs);
+    }
+
+    const start = Date.now();
+
+    const limit = options.cutoffBytes ?? body.length;
+    const chunkSize = options.throttle?.chunkSize ?? limit;
+    let bytesSent = 0;
+
+    while (bytesSent < limit && !clientGone) {
+        const chunk = body.subarray(bytesSent, Math.min(limit, bytesSent + chunkSize));
+        res.write(chunk);
+        bytesSent += chunk.length;
+
+        if (options.throttle) {
+            // Pace against the start time so timer drift doesn't accumulate
+            const dueAt = start + (bytesSent / options.throttle.bytesPerSecond) * 1000;
+            const waitMs = dueAt - Date.now();
+            if (waitMs > 0 && bytesSent < limit) {
+                await delay(waitMs);
+            }
+        }
+    }
+
+    if (options.cutoffBytes !== null) {
+        // Let the partial body reach the client, then drop the connection
+        // without ending the response - the client sees ECONNRESET
+        if (!clientGone) {
+            await new Promise<void>(resolve => res.write('', () => resolve()));
+        }
+        res.socket?.destroy();
+    } else if (!clientGone) {
+        res.end();
+    }
+
+    return { completed: bytesSent === limit, bytesSent, durationMs: Date.now() - start };
+}
+
+/**
+ * Outcome of streaming a body to the client.
+ */
+interface StreamTransfer {
+    outcome: 'completed' | 'cut' | 'client_closed' | 'upstream_error';
+    bytesSent: number;
+    units: number;             // SSE events or chunks written
+    dropped: number;           // SSE events dropped
+    durationMs: number;
+}
+
+/**
+ * Stream the upstream body to the client as it arrives, with transfer chaos
+ * applied: held back for `delayMs` after the headers, paced to the throttle
+ * rate if set, and delayed, dropped or cut off unit by unit if stream chaos
+ * is set. With stream chaos on an SSE response the units are whole events,
+ * so chaos never splits one. A cut or a failed upstream destroys the socket
+ * after the data sent so far. Stops reading upstream if the client
+ * disconnects. Status and headers must already be set.
+ */
+async function streamBodyWithChaos(
+    res: Response,
+    body: ReadableStream<Uint8Array> | null,
+    options: {
+        delayMs: number;
+        throttle: ThrottleConfig | null;
+        stream: StreamChaosConfig | null;
+        sse: boolean;
+        random: RandomSource;
+    }
+): Promise<StreamTransfer> {
+    let clientGone = false;
+    res.on('close', () => { clientGone = true; });
+
+    res.flushHeaders();
+
+    if (options.delayMs > 0) {
+        await delay(options.delayMs);
+    }
+
+    const start = Date.now();
+    const transfer: StreamTransfer = { outcome: 'completed', bytesSent: 0, units: 0, dropped: 0, durationMs: 0 };
+    const { throttle, stream } = options;
+    let seen = 0;
+
+    // Write data piece by piece, pacing to the throttle rate and waiting for the socket to drain
+    const write = async (data: Buffer): Promise<void> => {
+        const chunkSize = throttle?.chunkSize ?? Math.max(1, data.length);
+        for (let offset = 0; offset < data.length && !clientGone; offset += chunkSize) {
+            if (throttle) {
+                // Pace against the start time; the length of the stream isn't known,
+                // so wait before each piece rather than after it
+                const waitMs = start + (transfer.bytesSent / throttle.bytesPerSecond) * 1000 - Date.now();
+                if (waitMs > 0) {
+                    await delay(waitMs);
+                }
+            }
+
+            const piece = data.subarray(offset, offset + chunkSize);
+            if (!res.write(piece)) {
+                await waitForDrain(res);
+            }
+            transfer.bytesSent += piece.length;
+        }
+    };
+
+    // Send one unit with stream chaos applied; false stops the transfer
+    const sendUnit = async (unit: Buffer): Promise<boolean> => {
+        if (stream) {
+            if (seen++ > 0 && stream.chunkDelayMs > 0) {
+                await delay(stream.chunkDelayMs);
+            }
+            if (options.sse && stream.dropPercent > 0 && options.random() * 100 < stream.dropPercent) {
+                transfer.dropped += 1;
+                return !clientGone;
+            }
+        }
+
+        await write(unit);
+        transfer.units += 1;
+
+        if (stream?.cutAfterEvents != null && transfer.units >= stream.cutAfterEvents) {
+            transfer.outcome = 'cut';
+            return false;
+        }
+        return !clientGone;
+    };
+
+    if (body && stream?.cutAfterEvents === 0) {
+        transfer.outcome = 'cut';
+    } else if (body) {
+        const splitEvents = options.sse && stream !== null;
+        const decoder = new TextDecoder();
+        let pending = '';      // SSE text after the last complete event
+        let stopped = false;
+
+        // Stop reading upstream as soon as the client goes away, even while waiting for data
+        const upstream = Readable.fromWeb(body as WebReadableStream<Uint8Array>);
+        res.on('close', () => upstream.destroy());
+
+        try {
+            reading: for await (const chunk of upstream) {
+                if (!splitEvents) {
+                    if (!await sendUnit(Buffer.from(chunk))) break;
+                    continue;
+                }
+
+                pending += decoder.decode(chunk, { stream: true });
+                let boundary: RegExpExecArray | null;
+                while ((boundary = SSE_EVENT_END.exec(pending)) !== null) {
+                    const end = boundary.index + boundary[0].length;
+                    const event = pending.slice(0, end);
+                    pending = pending.slice(end);
+                    if (!await sendUnit(Buffer.from(event))) {
+                        stopped = true;
+                        break reading;
+                    }
+                }
+            }
+
+            // An unterminated last event goes out as is
+            pending += decoder.decode();
+            if (!stopped && pending !== '' && transfer.outcome === 'completed') {
+                await write(Buffer.from(pending));
+            }
+        } catch {
+            // Reading fails when the client's disconnect destroyed the stream, too
+            if (!clientGone) transfer.outcome = 'upstream_error';
+        }
+    }
+
+    if (clientGone && transfer.outcome === 'completed') {
+        transfer.outcome = 'client_closed';
+    }
+
+    if (transfer.outcome === 'cut' || transfer.outcome === 'upstream_error') {
+        // Let the data sent so far reach the client, then drop the connection
+        if (!clientGone) {
+            await new Promise<void>(resolve => res.write('', () => resolve()));
+        }
+        res.socket?.destroy();
+    } else if (!clientGone) {
+        res.end();
+    }
+
+    transfer.durationMs = Date.now() - start;
+    return transfer;
+}
+
+function waitForDrain(res: Response): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => {
+            res.off('drain', done);
+            res.off('close', done);
+            resolve();
+        };
+        res.on('drain', done);
+        res.on('close', done);
+    });
+}
+
 // ============================================================================
 // Main Handler
 // ============================================================================
 
+/**
+ * Where a proxied request goes, and what rules and the log see of it.
+ */
+interface ProxyTarget {
+    upstream: string;          // Route name, 'default', or 'forward' for forward-proxy requests
+    url: URL;                  // URL the request is sent to
+    path: string;              // Path rules match against
+    host: string | undefined;  // Hostname rules match against
+    logPath: string;           // Path (with query string) recorded in the log
+}
+
+/**
+ * Handle a request on /proxy/*, sent to the upstream the routing table picks.
+ */
 async function proxyHandler(
     req: Request & { rawBody?: Buffer },
     res: Response,
     _next: NextFunction
 ): Promise<void> {
     const config = getConfig();
-    const startTime = Date.now();
-    const requestId = generateRequestId();
-    const actionsApplied: string[] = [];
-
-    // -------------------------------------------------------------------------
-    // Validate configuration
-    // -------------------------------------------------------------------------
 
-    if (!config.targetUrl) {
+    if (!config.targetUrl && !config.upstreams?.length) {
         sendErrorResponse(res, 503, 'No target URL configured',
             'Set a target URL via PUT /api/config before using the proxy.');
         return;
     }
 
+    const upstream = resolveUpstream(config, req.path, req.headers.host);
+    if (!upstream) {
+        sendErrorResponse(res, 502, 'No upstream matches this request',
+            `No route in the routing table matches ${req.headers.host ?? ''}${req.path} and no default target URL is set.`);
+        return;
+    }
+
     // -------------------------------------------------------------------------
-    // Build target URL (handle internal://fake for offline demo mode)
+    // Build target URL (internal://fake routes to the built-in fake API)
     // -------------------------------------------------------------------------
 
-    const isInternalFake = config.targetUrl === 'internal://fake';
     let targetUrl: URL;
 
     try {
-        if (isInternalFake) {
-            // Route to the built-in fake API at /fake/* on same server
-            // We use localhost with the same port to route internally
-            const port = process.env.PORT || 3001;
-            targetUrl = new URL(`/fake${req.path}`, `http://localhost:${port}`);
-        } else {
-            targetUrl = new URL(req.path, config.targetUrl);
-        }
         const queryIndex = req.originalUrl.indexOf('?');
-        if (queryIndex !== -1) {
-            targetUrl.search = req.originalUrl.slice(queryIndex);
-        }
+        targetUrl = upstreamRequestUrl(upstream, queryIndex === -1 ? '' : req.originalUrl.slice(queryIndex));
     } catch (err) {
         sendErrorResponse(res, 502, 'Invalid target URL',
             `Failed to construct URL: ${err instanceof Error ? err.message : String(err)}`);
         return;
     }
 
+    await proxyRequest(req, res, {
+        upstream: upstream.name,
+        url: targetUrl,
+        path: req.path,
+        host: requestHostname(null, req.headers.host),
+        logPath: req.path + targetUrl.search,
+    });
+}
+
+/**
+ * Handle a forward-proxy request, sent to the absolute URI it names. Rules
+ * see the URI's path and host, and the log records the whole URI.
+ */
+async function forwardProxyHandler(
+    req: Request & { rawBody?: Buffer },
+    res: Response,
+    _next: NextFunction
+): Promise<void> {
+    if (!FORWARD_PROXY_ENABLED) {
+        sendErrorResponse(res, 403, 'Forward proxy mode is disabled',
+            'Start the server with FORWARD_PROXY=1 to proxy absolute-URI requests.');
+        return;
+    }
+
+    const url = forwardProxyUrl(req.originalUrl);
+    if (!url) {
+        sendErrorResponse(res, 400, 'Invalid forward-proxy request URI');
+        return;
+    }
+
+    await proxyRequest(req, res, {
+        upstream: FORWARD_UPSTREAM,
+        url,
+        path: url.pathname,
+        host: url.hostname,
+        logPath: url.href,
+    });
+}
+
+/**
+ * Run a request through the chaos pipeline and proxy it to its target.
+ */
+async function proxyRequest(
+    req: Request & { rawBody?: Buffer },
+    res: Response,
+    target: ProxyTarget
+): Promise<void> {
+    const config = getConfig();
+    const startTime = Date.now();
+    const requestId = generateRequestId();
+    const actionsApplied: string[] = [];
+    const targetUrl = target.url;
+    let matchedRule: ChaosRule | null = null;
+    let requestMutation: RequestMutation | undefined;
+    let chaosResponseHeaders: Record<string, string> = {};
+    let concurrencyLimits: ConcurrencyLimit[] = [];
+
     // -------------------------------------------------------------------------
     // Initialize log entry
     // -------------------------------------------------------------------------
 
+    const sequence = nextRequestSequence();
+    const random = createRequestRandom(config.seed, sequence);
+
     const logEntry: RequestLog = {
         id: requestId,
         timestamp: new Date().toISOString(),
+        sequence,
+        seed: config.seed,
         method: req.method,
-        path: req.path + (targetUrl.search || ''),
+        path: target.logPath,
+        upstream: target.upstream,
         headers: cloneHeadersForLog(req.headers),
         chaosApplied: false,
         actionsApplied: [],
@@ -175,15 +709,37 @@ async function proxyHandler(
     // Run Pre-Proxy Pipeline (Steps 1-4)
     // -------------------------------------------------------------------------
 
+    const chaosRequest: ChaosRequest = {
+        path: target.path,
+        method: req.method,
+        headers: req.headers,
+        query: targetUrl.searchParams,
+        rawBody: req.rawBody,
+        clientIp: req.ip ?? req.socket.remoteAddress ?? 'unknown',
+        host: target.host,
+        upstream: target.upstream,
+        requestId,
+        random,
+    };
+
     if (config.enabled) {
-        const preResult = runPreProxyPipeline(req.path, req.method);
+        const preResult = runPreProxyPipeline(chaosRequest);
         actionsApplied.push(...preResult.actionsApplied);
+        matchedRule = preResult.matchedRule;
+        requestMutation = preResult.requestMutation;
+        chaosResponseHeaders = preResult.responseHeaders ?? {};
+        concurrencyLimits = preResult.concurrencyLimits ?? [];
 
-        if (preResult.matchedRule) {
+        if (matchedRule) {
             logEntry.chaosApplied = true;
-            logEntry.chaosType = preResult.matchedRule.chaosType;
-            logEntry.chaosRuleId = preResult.matchedRule.id;
-            logEntry.chaosRuleName = preResult.matchedRule.name;
+            logEntry.chaosTypes = matchedRule.effects.map(effect => effect.type);
+            logEntry.chaosRuleId = matchedRule.id;
+            logEntry.chaosRuleName = matchedRule.name;
+        }
+
+        // 'before-upstream' latency holds the request before anything else happens
+        if (preResult.delayMs) {
+            await delay(preResult.delayMs);
         }
 
         // Handle immediate responses (rate limit fail, error, timeout)
@@ -198,17 +754,7 @@ async function proxyHandler(
                 addLog(logEntry);
                 broadcast({ type: 'new-log', log: logEntry });
 
-                // Set any custom headers (e.g., Retry-After for rate limiting)
-                if (preResult.immediateResponse.headers) {
-                    for (const [key, value] of Object.entries(preResult.immediateResponse.headers)) {
-                        res.set(key, value);
-                    }
-                }
-
-                res
-                    .status(preResult.immediateResponse.statusCode)
-                    .set('Content-Type', preResult.immediateResponse.contentType)
-                    .send(preResult.immediateResponse.body);
+                sendImmediateResponse(res, preResult.immediateResponse);
                 return;
             } else {
                 // ---------------------------------------------------------------
@@ -255,115 +801,241 @@ async function proxyHandler(
         actionsApplied.push('chaos:disabled');
     }
 
+    // -------------------------------------------------------------------------
+    // Concurrency limits: claim in-flight slots, held until the response ends
+    // -------------------------------------------------------------------------
+
+    if (concurrencyLimits.length > 0) {
+        const slots = await acquireConcurrencySlots(concurrencyLimits, chaosRequest, actionsApplied);
+        logEntry.queueWaitMs = slots.queueWaitMs;
+
+        if (slots.rejection) {
+            logEntry.statusCode = slots.rejection.statusCode;
+            logEntry.responseTime = Date.now() - startTime;
+            logEntry.actionsApplied = actionsApplied;
+            logEntry.chaosDetails = actionsApplied.join(' → ');
+            addLog(logEntry);
+            broadcast({ type: 'new-log', log: logEntry });
+
+            sendImmediateResponse(res, { ...slots.rejection, headers: { ...chaosResponseHeaders, ...slots.rejection.headers } });
+            return;
+        }
+
+        // The client may have gone away while queued
+        if (req.socket.destroyed) {
+            slots.release();
+            return;
+        }
+        res.on('close', slots.release);
+    }
+
     // -------------------------------------------------------------------------
     // Proxy to Upstream (Step 5)
     // -------------------------------------------------------------------------
 
-    const forwardHeaders = filterRequestHeaders(req.headers);
-    const fetchOptions: RequestInit & { duplex?: string } = {
+    const outbound = {
         method: req.method,
-        headers: forwardHeaders,
+        headers: filterRequestHeaders(req.headers),
+        url: targetUrl,
+        body: req.rawBody,
+    };
+
+    if (requestMutation) {
+        actionsApplied.push(...applyRequestMutation(outbound, requestMutation));
+    }
+
+    const fetchOptions: RequestInit & { duplex?: string } = {
+        method: outbound.method,
+        headers: outbound.headers,
         duplex: 'half',
     };
 
-    if (!['GET', 'HEAD'].includes(req.method) && req.rawBody && req.rawBody.length > 0) {
-        fetchOptions.body = req.rawBody;
+    if (!['GET', 'HEAD'].includes(outbound.method) && outbound.body && outbound.body.length > 0) {
+        fetchOptions.body = outbound.body;
     }
 
     actionsApplied.push('upstream:request');
 
-    let upstreamResponse: Response;
-    let responseBuffer: ArrayBuffer;
-
     try {
-        const fetchResponse = await fetch(targetUrl.toString(), fetchOptions);
-        responseBuffer = await fetchResponse.arrayBuffer();
+        const fetchResponse = await fetch(outbound.url.toString(), fetchOptions);
         actionsApplied.push(`upstream:${fetchResponse.status}`);
 
-        // We need to pass the fetch response data through
-        upstreamResponse = fetchResponse as unknown as Response;
-
-        // Get post-proxy effects
-        const matchedRule = config.enabled
-            ? runPreProxyPipeline(req.path, req.method).matchedRule
-            : null;
-        const postEffects = getPostProxyEffects(matchedRule);
+        // Get post-proxy effects for the rule matched in the pre-proxy phase
+        const postEffects = getPostProxyEffects(matchedRule, fetchResponse.status, random);
 
         // -----------------------------------------------------------------------
-        // Step 6: Latency delay (before sending response)
+        // Step 6: Latency delay (before the headers; 'before-body' waits in step 9)
         // -----------------------------------------------------------------------
 
-        if (postEffects.delayMs > 0) {
-            actionsApplied.push(...postEffects.actionsApplied);
-            await delay(postEffects.delayMs);
+        actionsApplied.push(...postEffects.actionsApplied);
+        if (postEffects.headersDelayMs > 0) {
+            await delay(postEffects.headersDelayMs);
         }
 
         // -----------------------------------------------------------------------
-        // Step 7: Corrupt JSON (only if safe to do so)
+        // Step 7: Corrupt JSON / GraphQL partial data (only if safe to do so)
         // -----------------------------------------------------------------------
 
-        let finalBody: Buffer | string = Buffer.from(responseBuffer);
+        // Body rewrites and resets work on the whole body; everything else is streamed
+        const jsonEffects = [
+            ...postEffects.corruptEffects.map(effect => ({ effect, label: 'corrupt_json', apply: corruptJsonBody })),
+            ...postEffects.graphqlPartialEffects.map(effect => ({ effect, label: 'graphql_partial', apply: nullGraphQLFields })),
+        ];
+        const bufferBody = jsonEffects.length > 0 || postEffects.resetFraction !== null;
+        let finalBody: Buffer | string | null = null;
         const contentType = fetchResponse.headers.get('content-type') || '';
         const contentEncoding = fetchResponse.headers.get('content-encoding') || '';
-        const contentLength = responseBuffer.byteLength;
-        const MAX_CORRUPT_SIZE = 1024 * 1024; // 1MB max for corruption
+        const isEventStream = contentType.toLowerCase().includes('text/event-stream');
         let wasCorrupted = false;
 
-        // Check all conditions for safe JSON corruption
-        const isJsonContentType = contentType.toLowerCase().includes('application/json') ||
-            contentType.toLowerCase().includes('+json');
-        const isEncodedResponse = /gzip|br|deflate/i.test(contentEncoding);
-        const isNoContentStatus = fetchResponse.status === 204 || fetchResponse.status === 304;
-        const isTooLarge = contentLength > MAX_CORRUPT_SIZE;
-
-        if (postEffects.corruptResponse) {
-            if (!isJsonContentType) {
-                actionsApplied.push('corrupt_json:skipped(reason=not_json)');
-            } else if (isNoContentStatus) {
-                actionsApplied.push(`corrupt_json:skipped(reason=status_${fetchResponse.status})`);
-            } else if (isEncodedResponse) {
-                actionsApplied.push(`corrupt_json:skipped(reason=encoded_${contentEncoding})`);
-            } else if (isTooLarge) {
-                actionsApplied.push(`corrupt_json:skipped(reason=too_large_${contentLength})`);
-            } else {
-                // Safe to corrupt
-                const bodyText = Buffer.from(responseBuffer).toString('utf-8');
-                const corrupted = corruptJsonBody(bodyText);
-                finalBody = corrupted.body;
-                actionsApplied.push(corrupted.action);
-
-                // Only mark as corrupted if actual corruption occurred (not skipped)
-                if (!corrupted.action.includes('skipped')) {
-                    wasCorrupted = true;
+        if (bufferBody) {
+            const responseBuffer = await fetchResponse.arrayBuffer();
+            finalBody = Buffer.from(responseBuffer);
+            const contentLength = responseBuffer.byteLength;
+
+            // Check all conditions for safely rewriting the JSON body
+            const isJsonContentType = contentType.toLowerCase().includes('application/json') ||
+                contentType.toLowerCase().includes('+json');
+            const isEncodedResponse = /gzip|br|deflate/i.test(contentEncoding);
+            const isNoContentStatus = fetchResponse.status === 204 || fetchResponse.status === 304;
+            const isTooLarge = contentLength > MAX_CORRUPT_SIZE;
+
+            const skipReason = !isJsonContentType ? 'not_json'
+                : isNoContentStatus ? `status_${fetchResponse.status}`
+                : isEncodedResponse ? `encoded_${contentEncoding}`
+                : isTooLarge ? `too_large_${contentLength}`
+                : null;
+
+            if (jsonEffects.length > 0) {
+                if (skipReason) {
+                    for (const label of new Set(jsonEffects.map(({ label }) => label))) {
+                        actionsApplied.push(`${label}:skipped(reason=${skipReason})`);
+                    }
+                } else {
+                    // Safe to rewrite - each effect works on the output of the previous one
+                    let bodyText = Buffer.from(responseBuffer).toString('utf-8');
+                    for (const { effect, apply } of jsonEffects) {
+                        const corrupted = apply(bodyText, random, effect);
+                        bodyText = corrupted.body;
+                        actionsApplied.push(...corrupted.actions);
+
+                        // Only mark as corrupted if the body actually changed (not skipped)
+                        if (corrupted.corrupted) {
+                            wasCorrupted = true;
+                        }
+                    }
+                    finalBody = bodyText;
                 }
             }
-        }
 
-        // Log completion
-        logEntry.statusCode = fetchResponse.status;
-        logEntry.responseTime = Date.now() - startTime;
-        logEntry.actionsApplied = actionsApplied;
-        logEntry.chaosDetails = actionsApplied.filter(a => !a.startsWith('upstream:')).join(' → ');
-        addLog(logEntry);
-        broadcast({ type: 'new-log', log: logEntry });
+            if (postEffects.stream) {
+                actionsApplied.push('stream:skipped(reason=buffered)');
+            }
+        }
 
         // Forward response headers
         fetchResponse.headers.forEach((value, key) => {
             if (!SKIP_RESPONSE_HEADERS.has(key.toLowerCase())) {
-                // Don't forward Content-Length if we corrupted the response
-                if (key.toLowerCase() === 'content-length' && wasCorrupted) {
+                // Don't forward Content-Length if we corrupted the response, or if a
+                // streamed body may differ from it (decoded by fetch, or events dropped)
+                if (key.toLowerCase() === 'content-length' && (wasCorrupted ||
+                    (finalBody === null && (contentEncoding !== '' || (postEffects.stream?.dropPercent ?? 0) > 0)))) {
                     return;
                 }
                 res.setHeader(key, value);
             }
         });
 
+        // Headers added by pre-proxy chaos (e.g. rate limit headers), overriding upstream's
+        for (const [key, value] of Object.entries(chaosResponseHeaders)) {
+            res.setHeader(key, value);
+        }
+
         // Add corruption signature header when corruption was actually applied
         if (wasCorrupted) {
             res.setHeader('X-Chaos-Corrupted', '1');
         }
 
-        res.status(fetchResponse.status).send(finalBody);
+        // -----------------------------------------------------------------------
+        // Step 8: Response header chaos (the status is rewritten in step 9)
+        // -----------------------------------------------------------------------
+
+        const hasHeaderChaos = postEffects.headerMutations.length > 0;
+        if (hasHeaderChaos) {
+            actionsApplied.push(...applyMutations(responseHeaderFields(res), postEffects.headerMutations, {
+                label: 'headers',
+                caseSensitive: false,
+                protectedNames: PROTECTED_RESPONSE_HEADERS,
+            }));
+        }
+
+        // -----------------------------------------------------------------------
+        // Step 9: Send status and body (streamed, delayed, trickled when throttled,
+        // cut off when reset or by stream chaos)
+        // -----------------------------------------------------------------------
+
+        const sentStatus = postEffects.statusCode ?? fetchResponse.status;
+        res.status(sentStatus);
+        let wasReset = false;
+
+        if (finalBody === null) {
+            const transfer = await streamBodyWithChaos(res, fetchResponse.body, {
+                delayMs: postEffects.bodyDelayMs,
+                throttle: postEffects.throttle,
+                stream: postEffects.stream,
+                sse: isEventStream,
+                random,
+            });
+            const bytes = `bytes=${transfer.bytesSent}`;
+
+            if (postEffects.throttle) {
+                actionsApplied.push(
+                    `throttle:${transfer.outcome === 'completed' ? 'completed' : 'aborted'}(${bytes},duration=${transfer.durationMs}ms)`
+                );
+            }
+            if (postEffects.stream) {
+                const units = `${isEventStream ? 'events' : 'chunks'}=${transfer.units}`;
+                const dropped = isEventStream ? `,dropped=${transfer.dropped}` : '';
+                actionsApplied.push(`stream:${transfer.outcome}(${units}${dropped},${bytes})`);
+            } else if (transfer.outcome !== 'completed') {
+                actionsApplied.push(`stream:${transfer.outcome}(${bytes})`);
+            }
+            wasReset = transfer.outcome === 'cut' || transfer.outcome === 'upstream_error';
+        } else if (hasHeaderChaos || postEffects.bodyDelayMs > 0 || postEffects.throttle || postEffects.resetFraction !== null) {
+            // Header chaos also bypasses res.send(), which would restore a removed Content-Type
+            const body = Buffer.isBuffer(finalBody) ? finalBody : Buffer.from(finalBody);
+            const cutoffBytes = postEffects.resetFraction === null
+                ? null
+                : Math.floor(body.length * postEffects.resetFraction);
+
+            const transfer = await sendBodyWithChaos(res, body, {
+                delayMs: postEffects.bodyDelayMs,
+                throttle: postEffects.throttle,
+                cutoffBytes,
+            });
+            const bytes = `bytes=${transfer.bytesSent}/${body.length}`;
+
+            if (postEffects.throttle) {
+                actionsApplied.push(
+                    `throttle:${transfer.completed ? 'completed' : 'aborted'}(${bytes},duration=${transfer.durationMs}ms)`
+                );
+            }
+            if (cutoffBytes !== null) {
+                wasReset = true;
+                actionsApplied.push(`reset:socket_destroyed(${bytes})`);
+            }
+        } else {
+            res.send(finalBody);
+        }
+
+        // Log completion (after sending, so streamed and throttled transfers are timed in full)
+        logEntry.statusCode = wasReset ? 'reset' : sentStatus;
+        logEntry.upstreamStatusCode = fetchResponse.status;
+        logEntry.responseTime = Date.now() - startTime;
+        logEntry.actionsApplied = actionsApplied;
+        logEntry.chaosDetails = actionsApplied.filter(a => !a.startsWith('upstream:')).join(' → ');
+        addLog(logEntry);
+        broadcast({ type: 'new-log', log: logEntry });
 
     } catch (err) {
         const error = err as Error & { cause?: Error & { code?: string } };
@@ -0,0 +1,68 @@
+/**
+ * Seeded Randomness
+ * 
+ * Deterministic pseudo-random numbers for reproducible chaos runs.
+ * Every proxied request gets its own generator derived from the configured
+ * seed and the request's sequence number, so the decisions made for a
+ * request depend only on its position in the run - not on how many random
+ * rolls earlier requests happened to consume.
+ */
+
+/**
+ * Returns a number in [0, 1), like Math.random().
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create the random source for one request.
+ * Without a seed, falls back to Math.random (non-reproducible).
+ */
+export function createRequestRandom(seed: number | undefined, sequence: number): RandomSource {
+    if (seed === undefined) return Math.random;
+    return mulberry32(mixSeed(seed, sequence));
+}
+
+/**
+ * Create the random source for a stream of decisions that isn't tied to a
+ * request, such as the phase lengths of a rule's schedule. Streams with
+ * different keys are independent.
+ * Without a seed, falls back to Math.random (non-reproducible).
+ */
+export function createKeyedRandom(seed: number | undefined, key: string): RandomSource {
+    if (seed === undefined) return Math.random;
+    return mulberry32(mixSeed(seed, hashKey(key)));
+}
+
+/**
+ * FNV-1a hash of a string, as a 32-bit integer.
+ */
+function hashKey(key: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        h = Math.imul(h ^ key.charCodeAt(i), 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/**
+ * Combine seed and sequence number into one well-distributed 32-bit state
+ * (murmur3 finalizer), so neighbouring sequence numbers diverge quickly.
+ */
+function mixSeed(seed: number, sequence: number): number {
+    let h = Math.imul(seed | 0, 0x9e3779b1) ^ Math.imul(sequence | 0, 0x85ebca77);
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Mulberry32: small, fast 32-bit PRNG with good statistical quality.
+ */
+function mulberry32(state: number): RandomSource {
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
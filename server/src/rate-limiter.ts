@@ -0,0 +1,201 @@
+/**
+ * Rate Limiter State
+ *
+ * In-memory limiters behind the 'token-bucket' effect, one per key:
+ * - token-bucket:   tokens refill at `rps` up to `burst` capacity
+ * - fixed-window:   at most `limit` requests per clock-aligned window
+ * - sliding-window: at most `limit` requests in any trailing window (request log)
+ *
+ * Callers build the key (rule, effect and client); this module only counts.
+ */
+
+import { LimiterAlgorithm } from './types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LimiterConfig {
+    algorithm: LimiterAlgorithm;
+    limit: number;             // Burst capacity (token-bucket) or requests per window
+    rps: number;               // Refill rate (token-bucket only)
+    windowMs: number;          // Window length (window algorithms only)
+}
+
+/**
+ * Outcome of one request against a limiter, with the numbers needed for
+ * rate limit response headers.
+ */
+export interface LimiterDecision {
+    allowed: boolean;
+    limit: number;
+    remaining: number;         // Requests left after this one
+    resetSeconds: number;      // Seconds until the limiter is back to full capacity
+    retryAfterSeconds: number; // Seconds until the next request may pass (0 when allowed)
+}
+
+interface TokenBucket {
+    tokens: number;
+    lastRefill: number;        // Unix timestamp in ms
+    rps: number;
+    burst: number;
+}
+
+interface FixedWindow {
+    windowStart: number;       // Unix timestamp in ms
+    count: number;
+    windowMs: number;
+}
+
+interface SlidingLog {
+    timestamps: number[];      // Allowed requests still inside the window, oldest first
+    windowMs: number;
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+const tokenBuckets = new Map<string, TokenBucket>();
+const fixedWindows = new Map<string, FixedWindow>();
+const slidingLogs = new Map<string, SlidingLog>();
+
+const SWEEP_INTERVAL_MS = 10_000;
+let lastSweep = 0;
+
+/**
+ * Count one request against the limiter for `key`, creating it on first use.
+ * Config changes (e.g. an edited rule) take effect on the next request.
+ */
+export function consumeRateLimit(key: string, config: LimiterConfig, now: number = Date.now()): LimiterDecision {
+    sweepIdleLimiters(now);
+
+    switch (config.algorithm) {
+        case 'fixed-window':
+            return consumeFixedWindow(key, config, now);
+        case 'sliding-window':
+            return consumeSlidingLog(key, config, now);
+        default:
+            return consumeToken(key, config, now);
+    }
+}
+
+// ============================================================================
+// Algorithms
+// ============================================================================
+
+function consumeToken(key: string, config: LimiterConfig, now: number): LimiterDecision {
+    let bucket = tokenBuckets.get(key);
+    if (!bucket) {
+        bucket = { tokens: config.limit, lastRefill: now, rps: config.rps, burst: config.limit }; // Start full
+        tokenBuckets.set(key, bucket);
+    }
+    bucket.rps = config.rps;
+    bucket.burst = config.limit;
+
+    // Refill tokens based on elapsed time
+    const elapsed = (now - bucket.lastRefill) / 1000;
+    bucket.tokens = Math.min(bucket.burst, bucket.tokens + elapsed * bucket.rps);
+    bucket.lastRefill = now;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+        bucket.tokens -= 1;
+    }
+
+    return {
+        allowed,
+        limit: bucket.burst,
+        remaining: Math.floor(bucket.tokens),
+        resetSeconds: Math.ceil((bucket.burst - bucket.tokens) / bucket.rps),
+        retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((1 - bucket.tokens) / bucket.rps)),
+    };
+}
+
+function consumeFixedWindow(key: string, config: LimiterConfig, now: number): LimiterDecision {
+    const windowStart = Math.floor(now / config.windowMs) * config.windowMs;
+
+    let window = fixedWindows.get(key);
+    if (!window || window.windowStart !== windowStart || window.windowMs !== config.windowMs) {
+        window = { windowStart, count: 0, windowMs: config.windowMs };
+        fixedWindows.set(key, window);
+    }
+
+    // Blocked requests don't count against the window
+    const allowed = window.count < config.limit;
+    if (allowed) {
+        window.count += 1;
+    }
+
+    const resetSeconds = Math.max(1, Math.ceil((windowStart + config.windowMs - now) / 1000));
+    return {
+        allowed,
+        limit: config.limit,
+        remaining: Math.max(0, config.limit - window.count),
+        resetSeconds,
+        retryAfterSeconds: allowed ? 0 : resetSeconds,
+    };
+}
+
+function consumeSlidingLog(key: string, config: LimiterConfig, now: number): LimiterDecision {
+    let log = slidingLogs.get(key);
+    if (!log) {
+        log = { timestamps: [], windowMs: config.windowMs };
+        slidingLogs.set(key, log);
+    }
+    log.windowMs = config.windowMs;
+
+    const windowStart = now - config.windowMs;
+    while (log.timestamps.length > 0 && log.timestamps[0] <= windowStart) {
+        log.timestamps.shift();
+    }
+
+    const allowed = log.timestamps.length < config.limit;
+    if (allowed) {
+        log.timestamps.push(now);
+    }
+
+    const oldest = log.timestamps[0];
+    const newest = log.timestamps[log.timestamps.length - 1];
+    return {
+        allowed,
+        limit: config.limit,
+        remaining: Math.max(0, config.limit - log.timestamps.length),
+        resetSeconds: newest === undefined ? 0 : Math.ceil((newest + config.windowMs - now) / 1000),
+        retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((oldest + config.windowMs - now) / 1000)),
+    };
+}
+
+// ============================================================================
+// Housekeeping
+// ============================================================================
+
+/**
+ * Drop limiters that are back to full capacity, so per-client keys don't
+ * grow the maps without bound. Runs at most once per sweep interval.
+ */
+function sweepIdleLimiters(now: number): void {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = now;
+
+    for (const [key, bucket] of tokenBuckets) {
+        const refilled = bucket.tokens + ((now - bucket.lastRefill) / 1000) * bucket.rps;
+        if (refilled >= bucket.burst) tokenBuckets.delete(key);
+    }
+    for (const [key, window] of fixedWindows) {
+        if (now >= window.windowStart + window.windowMs) fixedWindows.delete(key);
+    }
+    for (const [key, log] of slidingLogs) {
+        const newest = log.timestamps[log.timestamps.length - 1];
+        if (newest === undefined || now - newest >= log.windowMs) slidingLogs.delete(key);
+    }
+}
+
+/**
+ * Clear all limiter state (useful for testing).
+ */
+export function clearRateLimiters(): void {
+    tokenBuckets.clear();
+    fixedWindows.clear();
+    slidingLogs.clear();
+}
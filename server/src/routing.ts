@@ -0,0 +1,135 @@
+/**
+ * Upstream Routing
+ *
+ * Picks the upstream a proxied request goes to: the first entry of the
+ * config's routing table whose path prefix and host match, or the default
+ * `targetUrl`. Any target may be "internal://fake", the built-in fake API.
+ *
+ * Forward-proxy requests (absolute URIs, sent by clients with HTTP_PROXY
+ * set) bypass the table and go to the URL they name, as upstream "forward".
+ */
+
+import { ProxyConfig, UpstreamRoute } from './types.js';
+
+export const DEFAULT_UPSTREAM = 'default';
+export const FORWARD_UPSTREAM = 'forward';
+export const INTERNAL_FAKE_TARGET = 'internal://fake';
+
+/**
+ * Where a request is sent: the route name, its target, and the path to
+ * forward (with the prefix removed if the route strips it).
+ */
+export interface ResolvedUpstream {
+    name: string;
+    targetUrl: string;
+    path: string;
+}
+
+/**
+ * Resolve the upstream for a request. Returns null when no route matches
+ * and there is no default target.
+ */
+export function resolveUpstream(
+    config: ProxyConfig,
+    path: string,
+    host: string | undefined
+): ResolvedUpstream | null {
+    for (const route of config.upstreams ?? []) {
+        if (!matchesRoute(route, path, host)) continue;
+
+        const strippedPath = route.stripPrefix && route.pathPrefix
+            ? path.slice(trimTrailingSlash(route.pathPrefix).length) || '/'
+            : path;
+        return { name: route.name, targetUrl: route.targetUrl, path: strippedPath };
+    }
+
+    if (!config.targetUrl) return null;
+    return { name: DEFAULT_UPSTREAM, targetUrl: config.targetUrl, path };
+}
+
+/**
+ * The URL to forward a request to: its path and query string resolved
+ * against the upstream's target, or the fake API's /fake/* routes on this
+ * server for "internal://fake". Throws if the target is not a valid URL.
+ */
+export function upstreamRequestUrl(upstream: ResolvedUpstream, search: string): URL {
+    const url = upstream.targetUrl === INTERNAL_FAKE_TARGET
+        ? new URL(`/fake${upstream.path}`, `http://localhost:${process.env.PORT || 3001}`)
+        : new URL(upstream.path, upstream.targetUrl);
+    url.search = search;
+    return url;
+}
+
+/**
+ * Forward-proxy mode lets any client reach any host through the server,
+ * so it is off unless the server is started with FORWARD_PROXY=1.
+ */
+export const FORWARD_PROXY_ENABLED = process.env.FORWARD_PROXY === '1';
+
+/**
+ * The target of a forward-proxy request: its absolute-form URI, as in
+ * "GET http://api.example.com/users HTTP/1.1". Returns null for an
+ * ordinary request ("GET /proxy/users HTTP/1.1").
+ */
+export function forwardProxyUrl(requestUrl: string | undefined): URL | null {
+    if (!requestUrl || !/^https?:\/\//i.test(requestUrl)) return null;
+    try {
+        return new URL(requestUrl);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The hostname a request is addressed to, lowercased and without a port:
+ * the host of a forward-proxy URI, otherwise the Host header.
+ */
+export function requestHostname(forwardUrl: URL | null, hostHeader: string | undefined): string | undefined {
+    if (forwardUrl) return forwardUrl.hostname;
+    return hostHeader ? hostname(hostHeader) : undefined;
+}
+
+function matchesRoute(route: UpstreamRoute, path: string, host: string | undefined): boolean {
+    if (route.host !== undefined && !matchesHost(route.host, host)) return false;
+    if (route.pathPrefix !== undefined && !matchesPathPrefix(route.pathPrefix, path)) return false;
+    return true;
+}
+
+/**
+ * Prefixes match whole path segments: "/orders" matches "/orders" and
+ * "/orders/1" but not "/orders-archive".
+ */
+function matchesPathPrefix(prefix: string, path: string): boolean {
+    const base = trimTrailingSlash(prefix);
+    return base === '' || path === base || path.startsWith(`${base}/`);
+}
+
+/**
+ * Hosts compare case-insensitively, ignoring any port on either side.
+ */
+function matchesHost(expected: string, actual: string | undefined): boolean {
+    if (!actual) return false;
+    return hostname(expected) === hostname(actual);
+}
+
+function hostname(host: string): string {
+    return host.toLowerCase().replace(/:\d+$/, '');
+}
+
+function trimTrailingSlash(value: string): string {
+    return value.endsWith('/') ? value.slice(0, -1) : value;
+}
+
+/**
+ * Check whether a target is an http(s) URL or the built-in fake API.
+ */
+export function isValidUpstreamTarget(target: unknown): boolean {
+    if (typeof target !== 'string') return false;
+    if (target === INTERNAL_FAKE_TARGET) return true;
+    try {
+        const url = new URL(target);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
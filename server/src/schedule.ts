@@ -0,0 +1,133 @@
+/**
+ * Flapping Outage Schedules
+ *
+ * Rules with a `schedule` alternate between down phases (the rule applies)
+ * and up phases (the rule is skipped) on a timer. Every phase change is
+ * pushed to the UI over the WebSocket as a 'rule-phase' message.
+ *
+ * With a seed set, the jittered phase lengths of each rule's cycle are
+ * reproducible: they depend only on the seed and the rule ID.
+ */
+
+import { getConfig, getRules } from './state.js';
+import { createKeyedRandom, RandomSource } from './random.js';
+import { broadcast } from './websocket.js';
+import { ChaosRule, RulePhase, RuleSchedule, SchedulePhase } from './types.js';
+
+// ============================================================================
+// State
+// ============================================================================
+
+interface ScheduleState {
+    schedule: string;          // JSON of the schedule the cycle was started with
+    phase: SchedulePhase;
+    since: number;             // Unix timestamp in ms
+    until: number;             // Unix timestamp in ms
+    timer: ReturnType<typeof setTimeout>;
+    random: RandomSource;      // Jitter source, carried from phase to phase
+}
+
+/**
+ * Running cycles, keyed by rule ID.
+ */
+const schedules = new Map<string, ScheduleState>();
+
+/**
+ * Bring the running cycles in line with the stored rules: start cycles for
+ * newly scheduled (or re-enabled) rules, restart those whose schedule
+ * changed, and stop those that were deleted, disabled or unscheduled.
+ * Call after every rule change.
+ */
+export function syncRuleSchedules(): void {
+    const scheduled = new Map<string, ChaosRule>();
+    for (const rule of getRules()) {
+        if (rule.enabled && rule.schedule) scheduled.set(rule.id, rule);
+    }
+
+    for (const [ruleId, state] of schedules) {
+        const rule = scheduled.get(ruleId);
+        if (!rule || JSON.stringify(rule.schedule) !== state.schedule) {
+            clearTimeout(state.timer);
+            schedules.delete(ruleId);
+        }
+    }
+
+    for (const [ruleId, rule] of scheduled) {
+        if (!schedules.has(ruleId)) {
+            const random = createKeyedRandom(getConfig().seed, `schedule:${ruleId}`);
+            enterPhase(ruleId, rule.schedule!, rule.schedule!.startPhase ?? 'down', random);
+        }
+    }
+}
+
+/**
+ * Restart every cycle from its start phase. Call when the seed is set, so
+ * the schedules replay along with the request sequence.
+ */
+export function restartRuleSchedules(): void {
+    for (const state of schedules.values()) {
+        clearTimeout(state.timer);
+    }
+    schedules.clear();
+    syncRuleSchedules();
+}
+
+/**
+ * Start a phase and schedule the switch to the next one.
+ */
+function enterPhase(ruleId: string, schedule: RuleSchedule, phase: SchedulePhase, random: RandomSource): void {
+    const now = Date.now();
+    const durationMs = phaseDuration(schedule, phase, random);
+
+    const state: ScheduleState = {
+        schedule: JSON.stringify(schedule),
+        phase,
+        since: now,
+        until: now + durationMs,
+        timer: setTimeout(() => {
+            enterPhase(ruleId, schedule, phase === 'down' ? 'up' : 'down', random);
+        }, durationMs),
+        random,
+    };
+    schedules.set(ruleId, state);
+
+    broadcast({ type: 'rule-phase', phase: toRulePhase(ruleId, state) });
+}
+
+/**
+ * Length of the next phase: its base length +/- a random jitter, at least 1 second.
+ */
+function phaseDuration(schedule: RuleSchedule, phase: SchedulePhase, random: RandomSource): number {
+    const baseMs = phase === 'down' ? schedule.downMs : schedule.upMs;
+    const jitterMs = (phase === 'down' ? schedule.downJitterMs : schedule.upJitterMs) ?? 0;
+    const offset = jitterMs > 0 ? Math.floor(random() * jitterMs * 2) - jitterMs : 0;
+    return Math.max(1000, baseMs + offset);
+}
+
+function toRulePhase(ruleId: string, state: ScheduleState): RulePhase {
+    return {
+        ruleId,
+        phase: state.phase,
+        since: new Date(state.since).toISOString(),
+        until: new Date(state.until).toISOString(),
+    };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Current phase of a scheduled rule, or undefined if it has no running cycle.
+ */
+export function getRulePhase(ruleId: string): RulePhase | undefined {
+    const state = schedules.get(ruleId);
+    return state ? toRulePhase(ruleId, state) : undefined;
+}
+
+/**
+ * Current phases of every scheduled rule.
+ */
+export function getRulePhases(): RulePhase[] {
+    return Array.from(schedules, ([ruleId, state]) => toRulePhase(ruleId, state));
+}
@@ -6,7 +6,7 @@
  * reconfigured per testing session.
  */
 
-import { ChaosRule, RequestLog, ProxyConfig } from './types.js';
+import { ChaosRule, NewChaosRule, RequestLog, ProxyConfig } from './types.js';
 
 // ============================================================================
 // State Containers
@@ -20,11 +20,22 @@ let proxyConfig: ProxyConfig = {
     enabled: true,
 };
 
+/**
+ * Sequence number of the last proxied request. Together with the seed it
+ * identifies every random decision, so it restarts whenever a seed is set.
+ */
+let requestSequence = 0;
+
 /**
  * Chaos rules - indexed by ID for fast lookup.
  */
 const chaosRules: Map<string, ChaosRule> = new Map();
 
+/**
+ * Hit counters - number of requests each rule has matched, by rule ID.
+ */
+const ruleHits: Map<string, number> = new Map();
+
 /**
  * Request logs - kept in memory with a max size to prevent memory issues.
  */
@@ -39,17 +50,35 @@ export function getConfig(): ProxyConfig {
     return { ...proxyConfig };
 }
 
+/**
+ * Apply a partial config update. Any update that sets the seed (even to
+ * its current value) restarts the request sequence, so a run can be replayed.
+ */
 export function updateConfig(updates: Partial<ProxyConfig>): ProxyConfig {
     proxyConfig = { ...proxyConfig, ...updates };
+    if ('seed' in updates) {
+        requestSequence = 0;
+    }
     return getConfig();
 }
 
+/**
+ * Claim the sequence number for a new proxied request.
+ */
+export function nextRequestSequence(): number {
+    requestSequence += 1;
+    return requestSequence;
+}
+
 // ============================================================================
 // Rule Operations
 // ============================================================================
 
+/**
+ * All rules in evaluation order (ascending priority, then creation order).
+ */
 export function getRules(): ChaosRule[] {
-    return Array.from(chaosRules.values());
+    return Array.from(chaosRules.values()).sort((a, b) => a.priority - b.priority);
 }
 
 export function getRule(id: string): ChaosRule | undefined {
@@ -57,11 +86,39 @@ export function getRule(id: string): ChaosRule | undefined {
     return rule ? { ...rule } : undefined;
 }
 
-export function createRule(rule: ChaosRule): ChaosRule {
-    chaosRules.set(rule.id, { ...rule });
+/**
+ * Store a rule. Rules without an explicit priority are appended after
+ * every existing rule.
+ */
+export function createRule(rule: NewChaosRule): ChaosRule {
+    const priority = rule.priority ?? getNextPriority();
+    chaosRules.set(rule.id, { ...rule, priority });
     return getRule(rule.id)!;
 }
 
+function getNextPriority(): number {
+    let max = -1;
+    for (const rule of chaosRules.values()) {
+        max = Math.max(max, rule.priority);
+    }
+    return max + 1;
+}
+
+/**
+ * Reorder all rules at once. `ids` must list every rule ID exactly once;
+ * otherwise nothing changes and undefined is returned.
+ */
+export function reorderRules(ids: string[]): ChaosRule[] | undefined {
+    const unique = new Set(ids);
+    if (unique.size !== ids.length || unique.size !== chaosRules.size) return undefined;
+    if (!ids.every(id => chaosRules.has(id))) return undefined;
+
+    ids.forEach((id, index) => {
+        chaosRules.get(id)!.priority = index;
+    });
+    return getRules();
+}
+
 export function updateRule(id: string, updates: Partial<ChaosRule>): ChaosRule | undefined {
     const existing = chaosRules.get(id);
     if (!existing) return undefined;
@@ -72,9 +129,48 @@ export function updateRule(id: string, updates: Partial<ChaosRule>): ChaosRule |
 }
 
 export function deleteRule(id: string): boolean {
+    ruleHits.delete(id);
     return chaosRules.delete(id);
 }
 
+// ============================================================================
+// Hit Counter Operations
+// ============================================================================
+
+/**
+ * Count a request matched by a rule. Returns the new hit count.
+ */
+export function recordRuleHit(id: string): number {
+    const hits = (ruleHits.get(id) ?? 0) + 1;
+    ruleHits.set(id, hits);
+    return hits;
+}
+
+/**
+ * Hit counts by rule ID. Rules that never matched are reported as 0.
+ */
+export function getRuleHits(): Record<string, number> {
+    const hits: Record<string, number> = {};
+    for (const id of chaosRules.keys()) {
+        hits[id] = ruleHits.get(id) ?? 0;
+    }
+    return hits;
+}
+
+/**
+ * Reset the hit counter of one rule, or of all rules if no ID is given.
+ * Returns false if the rule does not exist.
+ */
+export function resetRuleHits(id?: string): boolean {
+    if (id === undefined) {
+        ruleHits.clear();
+        return true;
+    }
+    if (!chaosRules.has(id)) return false;
+    ruleHits.delete(id);
+    return true;
+}
+
 // ============================================================================
 // Log Operations
 // ============================================================================
@@ -10,14 +10,155 @@
 
 /**
  * The type of chaos to apply to matching requests.
- * - latency: Adds a random delay between minMs and maxMs
+ * - latency: Adds a delay, fixed or drawn from a distribution (see LatencyDistribution)
  * - error: Returns an HTTP error response
  * - timeout: Never responds (simulates connection timeout)
- * - corrupt: Returns malformed JSON
+ * - corrupt: Mutates the JSON response body (see CorruptionStrategy)
  * - rate-limit: Drops a percentage of requests randomly (429)
  * - token-bucket: True rate limiter using token bucket algorithm (429 + Retry-After)
+ * - sequence: Plays a scripted list of outcomes per client (e.g. 503, 503, timeout, pass)
+ * - throttle: Trickles the response body to the client at a fixed byte rate
+ * - reset: Sends status, headers and part of the body, then destroys the socket (ECONNRESET)
+ * - headers: Removes, sets or rewrites upstream response headers
+ * - mutate-request: Alters the outgoing request (headers, query, body, method) before it reaches upstream
+ * - status-rewrite: Sends the real upstream body with a different status code
+ * - concurrency: Caps in-flight proxied requests per rule, queueing or rejecting (503) the rest
+ * - stream: Delays, drops (SSE events) or cuts off chunks of a streamed response body
+ * - websocket: Refuses proxied WebSocket upgrades, or delays, drops, duplicates messages and closes connections
+ * - graphql-error: Answers a GraphQL request with a 200 carrying an `errors` array and null `data`
+ * - graphql-partial: Nulls fields of the upstream GraphQL `data` and adds a matching error for each
+ * - graphql-latency: Delays GraphQL requests according to the top-level fields they select
  */
-export type ChaosType = 'latency' | 'error' | 'timeout' | 'corrupt' | 'rate-limit' | 'token-bucket';
+export type ChaosType =
+    | 'latency' | 'error' | 'timeout' | 'corrupt' | 'rate-limit' | 'token-bucket' | 'sequence' | 'throttle'
+    | 'reset' | 'headers' | 'mutate-request' | 'status-rewrite' | 'concurrency' | 'stream' | 'websocket'
+    | 'graphql-error' | 'graphql-partial' | 'graphql-latency';
+
+/**
+ * One step of a per-client sequence: an HTTP status code to return,
+ * 'timeout' to hang, or 'pass' to let the request through.
+ */
+export type SequenceStep = number | 'timeout' | 'pass';
+
+/**
+ * How a sequence identifies the calling client.
+ * - header: value of `sequenceKeyHeader` (e.g. Idempotency-Key, X-Request-Id)
+ * - ip: client IP address
+ */
+export type SequenceKeySource = 'header' | 'ip';
+
+/**
+ * How a 'token-bucket' effect counts requests.
+ * - token-bucket: tokens refill at `rps` up to `burst` capacity
+ * - fixed-window: at most `windowLimit` requests per clock-aligned window of `windowMs`
+ * - sliding-window: at most `windowLimit` requests in any trailing `windowMs`
+ */
+export type LimiterAlgorithm = 'token-bucket' | 'fixed-window' | 'sliding-window';
+
+/**
+ * Who shares a limiter.
+ * - global: every caller (one limiter per method)
+ * - ip: client IP address
+ * - api-key: X-API-Key header, or Authorization when absent
+ * - header: value of `limiterKeyHeader`
+ */
+export type LimiterKeySource = 'global' | 'ip' | 'api-key' | 'header';
+
+/**
+ * Rate limit headers added to responses.
+ * - x-ratelimit: X-RateLimit-Limit / -Remaining / -Reset (Unix time in seconds)
+ * - ratelimit: RateLimit-Limit / -Remaining / -Reset (seconds from now, IETF draft)
+ * - none: only Retry-After on 429s
+ */
+export type RateLimitHeaderStyle = 'x-ratelimit' | 'ratelimit' | 'none';
+
+/**
+ * Which WebSocket messages message chaos applies to.
+ * - both: messages in either direction
+ * - client-to-upstream: messages the client sends
+ * - upstream-to-client: messages the upstream sends
+ */
+export type WebSocketDirection = 'both' | 'client-to-upstream' | 'upstream-to-client';
+
+/**
+ * How a latency effect picks its delay.
+ * - fixed: always `latencyMs` (default when `latencyMs` is set)
+ * - uniform: between `latencyMinMs` and `latencyMaxMs` (default otherwise)
+ * - normal: bell curve around `latencyMeanMs` with `latencyStdDevMs`
+ * - log-normal: long right tail around `latencyMedianMs`, shaped by `latencySigma`
+ * - exponential: memoryless waits averaging `latencyMeanMs`
+ * - pareto: heavy tail starting at `latencyMinMs`, shaped by `latencyParetoAlpha`
+ * - percentile: log-normal fitted to `latencyP50Ms` and `latencyP99Ms`
+ */
+export type LatencyDistribution =
+    | 'fixed' | 'uniform' | 'normal' | 'log-normal' | 'exponential' | 'pareto' | 'percentile';
+
+/**
+ * When a latency effect waits, relative to the upstream call.
+ * - before-upstream: before the request is forwarded ("slow to connect")
+ * - before-headers: after the upstream responded, before status and headers are sent (time to first byte)
+ * - before-body: after status and headers are sent, before the body ("slow to finish")
+ */
+export type LatencyPhase = 'before-upstream' | 'before-headers' | 'before-body';
+
+/**
+ * What a header mutation does to the response headers it selects.
+ * - remove: drops every matching header
+ * - set: sets the header to `value`, adding it if absent (a regex name only updates existing headers)
+ * - rewrite: replaces `pattern` (a regex, default the whole value) with `value` in every matching header
+ */
+export type HeaderOperation = 'remove' | 'set' | 'rewrite';
+
+/**
+ * One change to the upstream response headers. Headers are selected by
+ * name (case-insensitive), or by a regex over lowercase names when `regex` is set.
+ */
+export interface HeaderMutation {
+    operation: HeaderOperation;
+    name: string;              // Header name, or a pattern when `regex` is true
+    regex?: boolean;
+    value?: string;            // For 'set' and 'rewrite'
+    pattern?: string;          // For 'rewrite': part of the value to replace
+}
+
+/**
+ * A change to the query string of the outgoing request. Same shape as a
+ * header mutation, but parameter names are case-sensitive.
+ */
+export type QueryMutation = HeaderMutation;
+
+/**
+ * How a corrupt effect mutates the JSON body. Each mutation picks one
+ * strategy at random from the effect's list.
+ * - remove: deletes a field or array element
+ * - nullify: sets a value to null
+ * - flip-type: changes a value's type (number to string, string to number, ...)
+ * - truncate-string: cuts a string value short
+ * - inject-field: adds an unexpected field to an object
+ * - reorder-array: shuffles an array
+ * - invalid-json: truncates the serialized document so it no longer parses
+ */
+export type CorruptionStrategy =
+    | 'remove' | 'nullify' | 'flip-type' | 'truncate-string' | 'inject-field' | 'reorder-array' | 'invalid-json';
+
+/**
+ * One entry of a weighted status distribution. Weights are relative, so
+ * 70/20/10 and 7/2/1 describe the same distribution.
+ */
+export interface WeightedStatus {
+    status: number;
+    weight: number;
+}
+
+/**
+ * Body style of a chaos-generated error response.
+ * - chaos-json: {"error":true,"message":...,"chaosMonkey":true} (default)
+ * - nginx: nginx's HTML error page
+ * - aws-alb: AWS Application Load Balancer HTML error page
+ * - problem-json: RFC 7807 application/problem+json document
+ * - empty: status only, no body
+ */
+export type ErrorTemplate = 'chaos-json' | 'nginx' | 'aws-alb' | 'problem-json' | 'empty';
 
 /**
  * HTTP methods that can be matched by a rule.
@@ -25,37 +166,209 @@ export type ChaosType = 'latency' | 'error' | 'timeout' | 'corrupt' | 'rate-limi
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | '*';
 
 /**
- * A chaos rule defines when and how to inject failures.
+ * Where a match condition reads its value from.
+ * - header: request header (name is case-insensitive)
+ * - query: query string parameter
+ * - body: field of the JSON request body, addressed by dot path (e.g. "user.name", "items.0.id")
+ * - graphql: part of the GraphQL operation in the request: "operationName", "operationType"
+ *   (query, mutation or subscription) or "field" (matches if any top-level field does)
  */
-export interface ChaosRule {
-    id: string;
-    name: string;
-    enabled: boolean;
+export type MatchSource = 'header' | 'query' | 'body' | 'graphql';
 
-    // Matching criteria
-    pathPattern: string;       // Regex pattern to match request path
-    methods: HttpMethod[];     // HTTP methods to match, '*' means all
+/**
+ * How a match condition compares the value it reads.
+ */
+export type MatchOperator = 'equals' | 'regex' | 'exists' | 'not-exists';
 
-    // Chaos configuration
-    chaosType: ChaosType;
+/**
+ * A structured condition evaluated against the request in addition to
+ * path and method. Values are compared as strings; non-string body values
+ * are compared in their JSON form.
+ */
+export interface MatchCondition {
+    source: MatchSource;
+    key: string;               // Header name, query parameter, body path or GraphQL part
+    operator: MatchOperator;
+    value?: string;            // For 'equals' and 'regex'
+}
+
+/**
+ * When a matching rule fires, based on its hit counter (1 for the first
+ * matching request, 2 for the second, ...).
+ * - always: every hit (default)
+ * - first-n: hits 1..count, then never again ("fail the first 3 requests")
+ * - every-nth: every count-th hit ("every 5th request")
+ * - after-n: every hit after the first count ("start failing after 100")
+ */
+export type TriggerMode = 'always' | 'first-n' | 'every-nth' | 'after-n';
+
+export interface RuleTrigger {
+    mode: TriggerMode;
+    count: number;
+}
+
+/**
+ * Phase of a flapping outage schedule.
+ * - down: the rule is active and its effects apply (the outage)
+ * - up: the rule is skipped as if disabled (healthy)
+ */
+export type SchedulePhase = 'down' | 'up';
+
+/**
+ * A flapping outage: the rule alternates between down and up phases on a
+ * timer, e.g. down for 20s, up for 40s, repeat.
+ */
+export interface RuleSchedule {
+    downMs: number;            // Length of each down phase
+    upMs: number;              // Length of each up phase
+    downJitterMs?: number;     // Random jitter +/- ms on each down phase (default 0)
+    upJitterMs?: number;       // Random jitter +/- ms on each up phase (default 0)
+    startPhase?: SchedulePhase; // Phase the cycle starts in (default 'down')
+}
+
+/**
+ * Current phase of a scheduled rule, as reported to the UI.
+ */
+export interface RulePhase {
+    ruleId: string;
+    phase: SchedulePhase;
+    since: string;             // ISO 8601 timestamp the phase started
+    until: string;             // ISO 8601 timestamp the phase ends
+}
+
+/**
+ * A single chaos effect. Rules hold an ordered list of effects; each effect
+ * runs in its own pipeline stage (pre-proxy or post-proxy), and effects that
+ * share a stage are applied in list order.
+ */
+export interface ChaosEffect {
+    type: ChaosType;
+    probability?: number;      // Percentage (0-100) of matching requests this effect fires on (default 100)
 
     // Type-specific parameters
     latencyMs?: number;        // For 'latency': fixed delay in ms
-    latencyMinMs?: number;     // For 'latency': min random delay
-    latencyMaxMs?: number;     // For 'latency': max random delay
+    latencyMinMs?: number;     // For 'latency': min random delay (uniform), scale (pareto)
+    latencyMaxMs?: number;     // For 'latency': max random delay (uniform), cap on other distributions (default 60000)
+    latencyDistribution?: LatencyDistribution; // For 'latency': how the delay is picked (default fixed or uniform)
+    latencyMeanMs?: number;    // For 'latency': mean (normal, exponential)
+    latencyStdDevMs?: number;  // For 'latency': standard deviation (normal, default mean / 4)
+    latencyMedianMs?: number;  // For 'latency': median (log-normal)
+    latencySigma?: number;     // For 'latency': shape (log-normal, default 1)
+    latencyParetoAlpha?: number; // For 'latency': tail index (pareto, default 1.5 - lower is heavier)
+    latencyP50Ms?: number;     // For 'latency': median (percentile)
+    latencyP99Ms?: number;     // For 'latency': 99th percentile (percentile)
+    latencyPhase?: LatencyPhase; // For 'latency': when the delay is applied (default 'before-headers')
     errorStatusCode?: number;  // For 'error': HTTP status code to return
     errorMessage?: string;     // For 'error': error message body
+    // Error response shape, for 'error', the status steps of 'sequence' and 'concurrency' rejections
+    errorTemplate?: ErrorTemplate; // Body style (default 'chaos-json')
+    errorBody?: string;        // Custom body with {{placeholders}}, replaces the template body
+    errorContentType?: string; // Content-Type of the response (default: the template's)
+    errorHeaders?: Record<string, string>; // Extra response headers, values may use {{placeholders}}
+    statusWeights?: WeightedStatus[]; // For 'error' and 'status-rewrite': pick the status from this distribution instead
+
+    // Status rewrite parameters
+    rewriteFromStatuses?: number[]; // For 'status-rewrite': upstream statuses to rewrite (default: any)
+    rewriteStatusCode?: number;     // For 'status-rewrite': status sent to the client instead
     failRate?: number;         // For 'rate-limit': percentage (0-100) of requests to fail
 
+    // JSON corruption parameters
+    corruptStrategies?: CorruptionStrategy[]; // For 'corrupt': strategies to pick from (default remove, nullify)
+    corruptPaths?: string[];   // For 'corrupt': JSONPath expressions selecting the fields to target (default: any)
+    corruptDeep?: boolean;     // For 'corrupt': without paths, target nested values too, not only top-level ones
+    corruptMutations?: number; // For 'corrupt': mutations per response (default 1)
+
     // Token bucket rate limiter parameters
     rps?: number;              // For 'token-bucket': tokens per second (refill rate)
     burst?: number;            // For 'token-bucket': max bucket capacity
+    limiterAlgorithm?: LimiterAlgorithm;   // For 'token-bucket': counting algorithm (default 'token-bucket')
+    windowLimit?: number;                  // For window algorithms: requests allowed per window (default 60)
+    windowMs?: number;                     // For window algorithms: window length in ms (default 60000)
+    limiterKeySource?: LimiterKeySource;   // For 'token-bucket': who shares a limiter (default 'global')
+    limiterKeyHeader?: string;             // For 'token-bucket': header naming the client when keyed by header
+    rateLimitHeaders?: RateLimitHeaderStyle; // For 'token-bucket': headers added to responses (default 'x-ratelimit')
+
+    // Concurrency limit parameters
+    maxConcurrent?: number;    // For 'concurrency': in-flight proxied requests allowed per rule (default 5)
+    queueSize?: number;        // For 'concurrency': requests that may wait for a slot (default 0 = reject at once)
+    queueTimeoutMs?: number;   // For 'concurrency': longest wait for a slot before rejecting (default 5000)
 
     // Timeout parameters
-    timeoutMs?: number;        // For 'timeout': duration to hang before destroying socket (default 8000)
+    timeoutMs?: number;        // For 'timeout' (and 'timeout' sequence steps): duration to hang before destroying socket (default 8000)
     jitterMs?: number;         // For 'timeout': random jitter +/- ms (default 0)
+
+    // Per-client sequence parameters
+    sequenceSteps?: SequenceStep[];        // For 'sequence': script played per client; requests pass once it ends
+    sequenceKeySource?: SequenceKeySource; // For 'sequence': how clients are told apart (default 'ip')
+    sequenceKeyHeader?: string;            // For 'sequence': header naming the client when keyed by header
+    sequenceIdleMs?: number;               // For 'sequence': forget a client idle this long (default 60000)
+
+    // Bandwidth throttle parameters
+    bytesPerSecond?: number;   // For 'throttle': transfer rate (default 20480 = 20 KB/s)
+    chunkSize?: number;        // For 'throttle': bytes written per chunk (default 1024)
+
+    // Connection reset parameters
+    resetFraction?: number;    // For 'reset': fraction (0-1) of the body sent before the socket is destroyed (default 0.5)
+
+    // Stream chaos parameters (units are SSE events for text/event-stream, upstream chunks otherwise)
+    streamChunkDelayMs?: number;    // For 'stream': extra delay before each unit after the first (default 0)
+    streamDropPercent?: number;     // For 'stream': percentage (0-100) of SSE events dropped (default 0)
+    streamCutAfterEvents?: number;  // For 'stream': destroy the socket after this many units (default: never)
+
+    // WebSocket parameters (for proxied WebSocket connections)
+    wsRefuseStatus?: number;       // For 'websocket': refuse the upgrade with this HTTP status instead of connecting
+    wsMessageDelayMs?: number;     // For 'websocket': delay each message by this long (default 0)
+    wsDropPercent?: number;        // For 'websocket': percentage (0-100) of messages dropped (default 0)
+    wsDuplicatePercent?: number;   // For 'websocket': percentage (0-100) of messages delivered twice (default 0)
+    wsDirection?: WebSocketDirection; // For 'websocket': messages the above apply to (default 'both')
+    wsCloseAfterMessages?: number; // For 'websocket': close the connection after this many messages (default: never)
+    wsCloseAfterMs?: number;       // For 'websocket': close the connection after this long (default: never)
+    wsCloseCode?: number;          // For 'websocket': close code sent to the client (default 1006 = drop without a close frame)
+
+    // GraphQL parameters
+    graphqlErrorMessage?: string;  // For 'graphql-error' / 'graphql-partial': message of each error
+    graphqlErrorCode?: string;     // For 'graphql-error' / 'graphql-partial': extensions.code of each error (default INTERNAL_SERVER_ERROR)
+    graphqlNullPaths?: string[];   // For 'graphql-partial': JSONPath expressions of the fields to null (default: one random field of data)
+    graphqlFieldLatencyMs?: Record<string, number>; // For 'graphql-latency': delay per top-level field name
+
+    // Response header parameters
+    headerMutations?: HeaderMutation[]; // For 'headers': changes applied in order
+
+    // Outbound request parameters
+    requestHeaderMutations?: HeaderMutation[]; // For 'mutate-request': changes to the forwarded headers
+    queryMutations?: QueryMutation[];          // For 'mutate-request': changes to the query string
+    requestBodyBytes?: number;                 // For 'mutate-request': truncate the forwarded body to this many bytes
+    requestMethod?: Exclude<HttpMethod, '*'>;  // For 'mutate-request': method to forward instead of the original
+}
+
+/**
+ * A chaos rule defines when and how to inject failures.
+ */
+export interface ChaosRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    priority: number;          // Evaluation order, lowest first (first match wins)
+
+    // Matching criteria
+    pathPattern: string;       // Regex pattern to match request path
+    hostPattern?: string;      // Regex pattern to match the hostname the request is addressed to (default: any)
+    methods: HttpMethod[];     // HTTP methods to match, '*' means all
+    matchers?: MatchCondition[]; // Additional conditions, all must hold
+
+    // Chaos configuration
+    trigger?: RuleTrigger;     // Count-based firing (default: every hit)
+    schedule?: RuleSchedule;   // Flapping outage: only active during down phases (default: always active)
+    upstream?: string;         // Only match requests routed to this upstream (route name, or 'default')
+    probability?: number;      // Percentage (0-100) of matching requests the rule fires on (default 100)
+    effects: ChaosEffect[];    // Effects to apply, in order
 }
 
+/**
+ * A rule about to be stored. Priority is optional and defaults to last place.
+ */
+export type NewChaosRule = Omit<ChaosRule, 'priority'> & { priority?: number };
+
 // ============================================================================
 // Request Logging Types
 // ============================================================================
@@ -66,35 +379,68 @@ export interface ChaosRule {
 export interface RequestLog {
     id: string;
     timestamp: string;         // ISO 8601 timestamp
+    sequence: number;          // Position of the request in the current run (starts at 1)
+    seed?: number;             // Seed that drove this request's chaos decisions, if any
 
     // Request details
     method: string;
     path: string;
+    upstream?: string;         // Route the request was sent to ('default' for the config's targetUrl)
     headers: Record<string, string>;
 
     // Response details (if completed)
-    statusCode?: number | 'timeout'; // Numeric or 'timeout' for timeout chaos
-    responseTime?: number;     // Total time including artificial delays
+    statusCode?: number | 'timeout' | 'reset'; // Sent to the client: numeric, 'timeout' for timeout chaos, 'reset' for reset chaos
+    upstreamStatusCode?: number; // Returned by the upstream, if it was called
+    queueWaitMs?: number;      // Time spent waiting for a concurrency slot, if a 'concurrency' effect applied
+    responseTime?: number;     // Total time including artificial delays (connection lifetime for WebSockets)
+    websocket?: WebSocketStats; // Message counts, for proxied WebSocket connections
 
     // Chaos details
     chaosApplied: boolean;
-    chaosType?: ChaosType;
+    chaosTypes?: ChaosType[];  // Effect types of the matched rule, in order
     chaosRuleId?: string;
     chaosRuleName?: string;
     chaosDetails?: string;     // Human-readable description of chaos applied
     actionsApplied?: string[]; // Array of actions applied in pipeline order
 }
 
+/**
+ * What happened on a proxied WebSocket connection, logged when it closes.
+ */
+export interface WebSocketStats {
+    messagesFromClient: number;   // Received from the client
+    messagesFromUpstream: number; // Received from the upstream
+    dropped: number;              // Dropped by chaos (either direction)
+    duplicated: number;           // Delivered twice by chaos (either direction)
+    closeCode: number;            // Close code the client saw (1006 = no close frame)
+    closedBy: 'client' | 'upstream' | 'chaos';
+}
+
 // ============================================================================
 // Proxy Configuration
 // ============================================================================
 
+/**
+ * An entry of the upstream routing table. Requests whose path starts with
+ * `pathPrefix` and whose Host header equals `host` (either may be omitted)
+ * go to `targetUrl` instead of the default target.
+ */
+export interface UpstreamRoute {
+    name: string;              // Unique name, used by rules and logs
+    pathPrefix?: string;       // e.g. "/orders" (matches /orders and /orders/..., not /orders-archive)
+    host?: string;             // e.g. "orders.local" (port ignored)
+    targetUrl: string;         // Base URL, or "internal://fake" for the built-in fake API
+    stripPrefix?: boolean;     // Remove `pathPrefix` from the forwarded path (default false)
+}
+
 /**
  * Global proxy configuration.
  */
 export interface ProxyConfig {
-    targetUrl: string;         // Base URL to proxy requests to
+    targetUrl: string;         // Default base URL to proxy requests to (name 'default')
+    upstreams?: UpstreamRoute[]; // Routing table, first match wins; unmatched requests use targetUrl
     enabled: boolean;          // Master switch for chaos injection
+    seed?: number;             // Integer seed for reproducible chaos decisions (unset = Math.random)
 }
 
 // ============================================================================
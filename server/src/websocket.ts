@@ -6,15 +6,17 @@
  */
 
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
 
 let wss: WebSocketServer | null = null;
 
 /**
- * Initialize the WebSocket server, attached to an existing HTTP server.
+ * Initialize the WebSocket server. The HTTP server hands it upgrades for
+ * /ws through handleUiUpgrade (other paths are proxied or served by the fake API).
  */
-export function initWebSocket(server: Server): void {
-    wss = new WebSocketServer({ server, path: '/ws' });
+export function initWebSocket(): void {
+    wss = new WebSocketServer({ noServer: true });
 
     wss.on('connection', (ws: WebSocket) => {
         console.log('[WebSocket] Client connected');
@@ -34,6 +36,17 @@ export function initWebSocket(server: Server): void {
     console.log('[WebSocket] Server initialized on /ws');
 }
 
+/**
+ * Accept a WebSocket upgrade for the UI's /ws endpoint.
+ */
+export function handleUiUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    if (!wss) {
+        socket.destroy();
+        return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => wss!.emit('connection', ws, req));
+}
+
 /**
  * Broadcast a message to all connected WebSocket clients.
  */
@@ -0,0 +1,494 @@
+/**
+ * WebSocket Proxy
+ *
+ * Proxies WebSocket upgrades on /proxy/* to the upstream picked by the
+ * routing table, and forward-proxy upgrades (absolute URIs) to the URI they
+ * name. The upgrade request goes through the same rule matching
+ * and pre-proxy pipeline as HTTP requests (errors, limiters, sequences,
+ * timeouts, 'before-upstream' latency, concurrency slots held for the
+ * connection's lifetime). The matched rule's 'websocket' effects can then
+ * refuse the upgrade, or delay, drop and duplicate messages and close the
+ * connection. Each connection is logged once it ends, with its message counts.
+ */
+
+import { IncomingMessage, STATUS_CODES } from 'http';
+import { Duplex } from 'stream';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { getConfig, addLog, nextRequestSequence } from './state.js';
+import { createRequestRandom, RandomSource } from './random.js';
+import {
+    runPreProxyPipeline,
+    getWebSocketChaos,
+    acquireConcurrencySlots,
+    delay,
+    isSendableCloseCode,
+    ABNORMAL_CLOSURE,
+    ChaosRequest,
+    PreProxyResult,
+    WebSocketChaosConfig,
+} from './chaos-engine.js';
+import { cloneHeadersForLog, filterRequestHeaders, generateRequestId } from './proxy.js';
+import {
+    FORWARD_PROXY_ENABLED,
+    FORWARD_UPSTREAM,
+    forwardProxyUrl,
+    requestHostname,
+    resolveUpstream,
+    upstreamRequestUrl,
+} from './routing.js';
+import { RequestLog, WebSocketDirection, WebSocketStats } from './types.js';
+import { broadcast } from './websocket.js';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+// Handshake headers the upstream connection sets itself
+const WEBSOCKET_HANDSHAKE_HEADERS = new Set([
+    'sec-websocket-key', 'sec-websocket-version', 'sec-websocket-extensions', 'sec-websocket-protocol',
+]);
+
+// Close code reported when a close frame carried no status
+const NO_STATUS_RECEIVED = 1005;
+
+/**
+ * Subprotocol the upstream accepted, per upgrade request, so the client is
+ * answered with the same one.
+ */
+const upstreamProtocols = new WeakMap<IncomingMessage, string>();
+
+const wss = new WebSocketServer({
+    noServer: true,
+    handleProtocols: (_protocols, req) => upstreamProtocols.get(req) || false,
+});
+
+type ImmediateResponse = NonNullable<PreProxyResult['immediateResponse']>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Answer an upgrade request with a plain HTTP response and close the socket.
+ */
+function rejectUpgrade(socket: Duplex, response: ImmediateResponse): void {
+    if (!socket.writable) {
+        socket.destroy();
+        return;
+    }
+
+    const body = Buffer.from(response.body);
+    const headers: Record<string, string | number> = {
+        Connection: 'close',
+        ...(response.contentType && { 'Content-Type': response.contentType }),
+        ...response.headers,
+        'Content-Length': body.length,
+    };
+    const head = `HTTP/1.1 ${response.statusCode} ${STATUS_CODES[response.statusCode] ?? ''}\r\n` +
+        Object.entries(headers).map(([name, value]) => `${name}: ${value}\r\n`).join('') +
+        '\r\n';
+    socket.end(Buffer.concat([Buffer.from(head), body]));
+}
+
+function proxyError(statusCode: number, message: string, details?: string): ImmediateResponse {
+    return {
+        statusCode,
+        body: JSON.stringify({ error: true, message, ...(details && { details }) }),
+        contentType: 'application/json',
+    };
+}
+
+function finishLog(logEntry: RequestLog, actionsApplied: string[], responseTime: number): void {
+    logEntry.responseTime = responseTime;
+    logEntry.actionsApplied = actionsApplied;
+    logEntry.chaosDetails = actionsApplied.filter(a => !a.startsWith('upstream:')).join(' → ');
+    addLog(logEntry);
+    broadcast({ type: 'new-log', log: logEntry });
+}
+
+// ============================================================================
+// Upgrade Handler
+// ============================================================================
+
+/**
+ * Handle a WebSocket upgrade on /proxy/*, or a forward-proxy upgrade. An
+ * unexpected error closes the connection rather than ending the process.
+ */
+export async function handleProxyUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    try {
+        await proxyUpgrade(req, socket, head);
+    } catch (err) {
+        console.error(`WebSocket upgrade ${req.url ?? ''} failed:`, err instanceof Error ? err.message : err);
+        socket.destroy();
+    }
+}
+
+async function proxyUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const config = getConfig();
+    const startTime = Date.now();
+    const requestId = generateRequestId();
+    const actionsApplied: string[] = [];
+
+    // The client may reset the connection before the upgrade completes
+    socket.on('error', () => socket.destroy());
+
+    const forwardUrl = forwardProxyUrl(req.url);
+    const requestUrl = forwardUrl ?? new URL(req.url ?? '/', 'http://localhost');
+    const path = forwardUrl ? forwardUrl.pathname : requestUrl.pathname.replace(/^\/proxy/, '') || '/';
+    let upstreamName = FORWARD_UPSTREAM;
+    let targetUrl: URL;
+
+    if (forwardUrl) {
+        if (!FORWARD_PROXY_ENABLED) {
+            rejectUpgrade(socket, proxyError(403, 'Forward proxy mode is disabled',
+                'Start the server with FORWARD_PROXY=1 to proxy absolute-URI requests.'));
+            return;
+        }
+        targetUrl = new URL(forwardUrl);
+    } else {
+        if (!config.targetUrl && !config.upstreams?.length) {
+            rejectUpgrade(socket, proxyError(503, 'No target URL configured',
+                'Set a target URL via PUT /api/config before using the proxy.'));
+            return;
+        }
+
+        const upstream = resolveUpstream(config, path, req.headers.host);
+        if (!upstream) {
+            rejectUpgrade(socket, proxyError(502, 'No upstream matches this request'));
+            return;
+        }
+
+        try {
+            upstreamName = upstream.name;
+            targetUrl = upstreamRequestUrl(upstream, requestUrl.search);
+        } catch (err) {
+            rejectUpgrade(socket, proxyError(502, 'Invalid target URL',
+                `Failed to construct URL: ${err instanceof Error ? err.message : String(err)}`));
+            return;
+        }
+    }
+    targetUrl.protocol = targetUrl.protocol === 'https:' ? 'wss:' : 'ws:';
+
+    // -------------------------------------------------------------------------
+    // Log entry and pre-proxy pipeline, as for HTTP requests
+    // -------------------------------------------------------------------------
+
+    const sequence = nextRequestSequence();
+    const random = createRequestRandom(config.seed, sequence);
+
+    const logEntry: RequestLog = {
+        id: requestId,
+        timestamp: new Date().toISOString(),
+        sequence,
+        seed: config.seed,
+        method: req.method ?? 'GET',
+        path: forwardUrl ? forwardUrl.href : path + requestUrl.search,
+        upstream: upstreamName,
+        headers: cloneHeadersForLog(req.headers),
+        chaosApplied: false,
+        actionsApplied: [],
+    };
+
+    const chaosRequest: ChaosRequest = {
+        path,
+        method: req.method ?? 'GET',
+        headers: req.headers,
+        query: requestUrl.searchParams,
+        clientIp: req.socket.remoteAddress ?? 'unknown',
+        host: requestHostname(forwardUrl, req.headers.host),
+        upstream: upstreamName,
+        requestId,
+        random,
+    };
+
+    let chaos: WebSocketChaosConfig | null = null;
+    let releaseSlots = () => {};
+
+    if (config.enabled) {
+        const preResult = runPreProxyPipeline(chaosRequest);
+        actionsApplied.push(...preResult.actionsApplied);
+        const matchedRule = preResult.matchedRule;
+
+        if (matchedRule) {
+            logEntry.chaosApplied = true;
+            logEntry.chaosTypes = matchedRule.effects.map(effect => effect.type);
+            logEntry.chaosRuleId = matchedRule.id;
+            logEntry.chaosRuleName = matchedRule.name;
+        }
+
+        if (preResult.delayMs) {
+            await delay(preResult.delayMs);
+        }
+
+        if (preResult.skipUpstream) {
+            if (preResult.immediateResponse) {
+                logEntry.statusCode = preResult.immediateResponse.statusCode;
+                finishLog(logEntry, actionsApplied, Date.now() - startTime);
+                rejectUpgrade(socket, preResult.immediateResponse);
+            } else {
+                // Timeout chaos: hold the upgrade unanswered, then drop the socket
+                const timeoutMs = preResult.timeoutConfig?.durationMs ?? 8000;
+                logEntry.statusCode = 'timeout';
+                finishLog(logEntry, actionsApplied, timeoutMs); // Expected duration
+
+                const destroyTimer = setTimeout(() => socket.destroy(), timeoutMs);
+                socket.on('close', () => clearTimeout(destroyTimer));
+            }
+            return;
+        }
+
+        if (preResult.requestMutation) {
+            actionsApplied.push('mutate_request:skipped(reason=websocket)');
+        }
+
+        chaos = getWebSocketChaos(matchedRule, chaosRequest, actionsApplied);
+        if (chaos?.refusal) {
+            const refusal = { ...chaos.refusal, headers: { ...preResult.responseHeaders, ...chaos.refusal.headers } };
+            logEntry.statusCode = refusal.statusCode;
+            finishLog(logEntry, actionsApplied, Date.now() - startTime);
+            rejectUpgrade(socket, refusal);
+            return;
+        }
+
+        // Slots are held for as long as the connection is open
+        const concurrencyLimits = preResult.concurrencyLimits ?? [];
+        if (concurrencyLimits.length > 0) {
+            const slots = await acquireConcurrencySlots(concurrencyLimits, chaosRequest, actionsApplied);
+            logEntry.queueWaitMs = slots.queueWaitMs;
+
+            if (slots.rejection) {
+                logEntry.statusCode = slots.rejection.statusCode;
+                finishLog(logEntry, actionsApplied, Date.now() - startTime);
+                rejectUpgrade(socket, slots.rejection);
+                return;
+            }
+            if (socket.destroyed) {
+                slots.release();
+                return;
+            }
+            releaseSlots = slots.release;
+        }
+    } else {
+        actionsApplied.push('chaos:disabled');
+    }
+
+    // -------------------------------------------------------------------------
+    // Connect upstream first, so a refused upgrade can be passed on as is
+    // -------------------------------------------------------------------------
+
+    const headers = filterRequestHeaders(req.headers);
+    for (const name of Object.keys(headers)) {
+        if (WEBSOCKET_HANDSHAKE_HEADERS.has(name.toLowerCase())) delete headers[name];
+    }
+    const protocols = (req.headers['sec-websocket-protocol'] ?? '')
+        .split(',')
+        .map(protocol => protocol.trim())
+        .filter(protocol => protocol !== '');
+
+    actionsApplied.push('upstream:connect');
+    const upstreamSocket = new WebSocket(targetUrl, protocols, { headers });
+    // Only the first outcome of the handshake counts (terminating a socket also emits 'error')
+    let handshake: 'pending' | 'upgraded' | 'failed' = 'pending';
+    // Set once the client's upgrade completed and the relay owns both sockets
+    let relaying = false;
+
+    // Client gave up while the upstream was connecting, or before its own upgrade completed
+    socket.on('close', () => {
+        if (handshake === 'pending') {
+            handshake = 'failed';
+            upstreamSocket.terminate();
+            releaseSlots();
+        } else if (handshake === 'upgraded' && !relaying) {
+            handshake = 'failed';
+            upstreamSocket.close(1001);
+            releaseSlots();
+        }
+    });
+
+    upstreamSocket.on('unexpected-response', (_request, upstreamResponse) => {
+        if (handshake !== 'pending') return;
+        handshake = 'failed';
+        const statusCode = upstreamResponse.statusCode ?? 502;
+        const chunks: Buffer[] = [];
+        upstreamResponse.on('data', (chunk: Buffer) => chunks.push(chunk));
+        upstreamResponse.on('end', () => {
+            actionsApplied.push(`upstream:${statusCode}`);
+            logEntry.statusCode = statusCode;
+            logEntry.upstreamStatusCode = statusCode;
+            finishLog(logEntry, actionsApplied, Date.now() - startTime);
+            releaseSlots();
+
+            const contentType = upstreamResponse.headers['content-type'];
+            rejectUpgrade(socket, {
+                statusCode,
+                body: Buffer.concat(chunks).toString(),
+                ...(contentType && { contentType }),
+            });
+            upstreamSocket.terminate();
+        });
+    });
+
+    upstreamSocket.on('error', (err: Error & { code?: string }) => {
+        if (handshake !== 'pending') return; // After the upgrade, the relay handles errors
+        handshake = 'failed';
+        actionsApplied.push(`upstream:error:${err.code || 'unknown'}`);
+        logEntry.statusCode = 502;
+        finishLog(logEntry, actionsApplied, Date.now() - startTime);
+        releaseSlots();
+        rejectUpgrade(socket, proxyError(502, 'Failed to reach upstream server', err.message));
+    });
+
+    upstreamSocket.on('open', () => {
+        if (handshake !== 'pending') return;
+        handshake = 'upgraded';
+        actionsApplied.push('upstream:101');
+        upstreamProtocols.set(req, upstreamSocket.protocol);
+
+        wss.handleUpgrade(req, socket, head, (client) => {
+            relaying = true;
+            relayMessages(client, upstreamSocket, chaos, random, (stats) => {
+                logEntry.statusCode = 101;
+                logEntry.upstreamStatusCode = 101;
+                logEntry.websocket = stats;
+                actionsApplied.push(`websocket:closed(code=${stats.closeCode},by=${stats.closedBy})`);
+                finishLog(logEntry, actionsApplied, Date.now() - startTime);
+                releaseSlots();
+            });
+        });
+    });
+}
+
+// ============================================================================
+// Message Relay
+// ============================================================================
+
+/**
+ * Relay messages both ways with message chaos applied, until either side
+ * closes or chaos closes the connection. Calls `onClosed` once, with the
+ * connection's stats.
+ */
+function relayMessages(
+    client: WebSocket,
+    upstream: WebSocket,
+    chaos: WebSocketChaosConfig | null,
+    random: RandomSource,
+    onClosed: (stats: WebSocketStats) => void
+): void {
+    const stats: WebSocketStats = {
+        messagesFromClient: 0,
+        messagesFromUpstream: 0,
+        dropped: 0,
+        duplicated: 0,
+        closeCode: ABNORMAL_CLOSURE,
+        closedBy: 'client',
+    };
+    let closing = false;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const schedule = (fn: () => void, ms: number) => {
+        const timer = setTimeout(() => {
+            timers.delete(timer);
+            fn();
+        }, ms);
+        timers.add(timer);
+    };
+
+    // Close both sides; the client's 'close' event reports the stats
+    const closeConnection = (closedBy: WebSocketStats['closedBy'], code: number) => {
+        if (closing) return;
+        closing = true;
+        stats.closedBy = closedBy;
+
+        if (isSendableCloseCode(code)) {
+            client.close(code, closedBy === 'chaos' ? 'Chaos Monkey' : undefined);
+            stats.closeCode = code;
+        } else if (code === NO_STATUS_RECEIVED) {
+            // A close frame without a status is relayed as one
+            client.close();
+            stats.closeCode = code;
+        } else {
+            // An abnormal close (upstream dropped, TLS failure, or chaos) drops
+            // the client connection too, which the client sees as 1006
+            client.terminate();
+            stats.closeCode = ABNORMAL_CLOSURE;
+        }
+        if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) {
+            upstream.close(1000);
+        }
+    };
+
+    const forward = (from: 'client' | 'upstream', data: RawData, isBinary: boolean) => {
+        if (closing) return;
+        const target = from === 'client' ? upstream : client;
+        if (from === 'client') {
+            stats.messagesFromClient += 1;
+        } else {
+            stats.messagesFromUpstream += 1;
+        }
+
+        const messageChaos = chaos && appliesTo(chaos.direction, from) ? chaos : null;
+        let copies = 1;
+        if (messageChaos && messageChaos.dropPercent > 0 && random() * 100 < messageChaos.dropPercent) {
+            stats.dropped += 1;
+            copies = 0;
+        } else if (messageChaos && messageChaos.duplicatePercent > 0 && random() * 100 < messageChaos.duplicatePercent) {
+            stats.duplicated += 1;
+            copies = 2;
+        }
+
+        const send = () => {
+            for (let i = 0; i < copies && target.readyState === WebSocket.OPEN; i++) {
+                target.send(data, { binary: isBinary });
+            }
+        };
+        // A fixed delay keeps messages in order
+        const delayMs = messageChaos?.messageDelayMs ?? 0;
+        if (delayMs > 0) {
+            schedule(send, delayMs);
+        } else {
+            send();
+        }
+
+        const seen = stats.messagesFromClient + stats.messagesFromUpstream;
+        if (chaos?.closeAfterMessages != null && seen >= chaos.closeAfterMessages) {
+            // Close once this message has gone out
+            const { closeCode } = chaos;
+            schedule(() => closeConnection('chaos', closeCode), delayMs);
+        }
+    };
+
+    client.on('message', (data, isBinary) => forward('client', data, isBinary));
+    upstream.on('message', (data, isBinary) => forward('upstream', data, isBinary));
+
+    if (chaos?.closeAfterMs != null) {
+        const { closeCode } = chaos;
+        schedule(() => closeConnection('chaos', closeCode), chaos.closeAfterMs);
+    }
+
+    client.on('close', (code) => {
+        if (!closing) {
+            // The client closed first
+            closing = true;
+            stats.closedBy = 'client';
+            stats.closeCode = code;
+            if (upstream.readyState === WebSocket.OPEN) {
+                upstream.close(isSendableCloseCode(code) ? code : 1000);
+            } else {
+                upstream.terminate();
+            }
+        }
+        for (const timer of timers) clearTimeout(timer);
+        timers.clear();
+        onClosed(stats);
+    });
+
+    upstream.on('close', (code) => closeConnection('upstream', code));
+
+    client.on('error', () => client.terminate());
+    upstream.on('error', () => upstream.terminate());
+}
+
+function appliesTo(direction: WebSocketDirection, from: 'client' | 'upstream'): boolean {
+    if (direction === 'both') return true;
+    return direction === (from === 'client' ? 'client-to-upstream' : 'upstream-to-client');
+}